@@ -6,8 +6,32 @@ import { randomUUID } from "crypto";
 import { mkdirSync, writeFileSync } from "fs";
 import { tmpdir } from "os";
 import { join } from "path";
-import type { CallToolResult } from "@roam-research/roam-tools-core";
-import { RoamError, ErrorCodes, tools, routeToolCall } from "@roam-research/roam-tools-core";
+import type {
+  AuditEntry,
+  CallToolResult,
+  ConfigSource,
+  GraphConfig,
+} from "@roam-research/roam-tools-core";
+import {
+  RoamError,
+  ErrorCodes,
+  tools,
+  routeToolCall,
+  readAuditEntries,
+  parseTimeFilter,
+  getAuditLogPath,
+  resolveGraph,
+  createClientForGraph,
+  exportToMarkdown,
+  importFromMarkdown,
+  ACCESS_LEVEL_SCOPES,
+  getConfigPath,
+  loadLayeredConfig,
+  migrateTokensToSecretStore,
+  setDefaultGraph,
+  getConfiguredGraphs,
+  isSecretRef,
+} from "@roam-research/roam-tools-core";
 import { connect } from "@roam-research/roam-tools-core/connect";
 
 // Get file extension from MIME type
@@ -91,6 +115,57 @@ function hasBooleanType(schema: z.ZodTypeAny): boolean {
   return getBaseType(schema) instanceof z.ZodBoolean;
 }
 
+// Print an error (with graph choices for GRAPH_NOT_SELECTED) and exit non-zero
+function exitWithError(error: unknown): never {
+  // Handle RoamError with structured output
+  if (error instanceof RoamError) {
+    console.error(`Error [${error.code || "UNKNOWN"}]: ${error.message}`);
+
+    // Show available graphs for GRAPH_NOT_SELECTED
+    if (error.code === ErrorCodes.GRAPH_NOT_SELECTED && error.context?.available_graphs) {
+      console.error("\nAvailable graphs:");
+      const graphs = error.context.available_graphs as Array<{
+        nickname: string;
+        name: string;
+      }>;
+      for (const g of graphs) {
+        console.error(`  - ${g.nickname} (${g.name})`);
+      }
+      console.error("\nUse --graph <nickname> to specify which graph to use.");
+    }
+
+    process.exit(1);
+  }
+
+  // Generic errors
+  const message = error instanceof Error ? error.message : String(error);
+  console.error(message);
+  process.exit(1);
+}
+
+// Run a tool and print its result; exits non-zero on errors
+async function runTool(toolName: string, args: Record<string, unknown>): Promise<void> {
+  try {
+    const result: CallToolResult = await routeToolCall(toolName, args, { caller: "cli" });
+
+    // Output each content item
+    for (const item of result.content) {
+      if (item.type === "text") {
+        console.log(item.text);
+      } else if (item.type === "image") {
+        const imageInfo = writeImageToTemp(item.data, item.mimeType);
+        console.log(JSON.stringify(imageInfo, null, 2));
+      }
+    }
+
+    if (result.isError) {
+      process.exit(1);
+    }
+  } catch (error) {
+    exitWithError(error);
+  }
+}
+
 // Build commands dynamically from shared tool definitions
 tools.forEach((tool) => {
   const cmd = program.command(tool.name.replace(/_/g, "-")).description(tool.description);
@@ -128,48 +203,7 @@ tools.forEach((tool) => {
       }
     }
 
-    try {
-      const result: CallToolResult = await routeToolCall(tool.name, args);
-
-      // Output each content item
-      for (const item of result.content) {
-        if (item.type === "text") {
-          console.log(item.text);
-        } else if (item.type === "image") {
-          const imageInfo = writeImageToTemp(item.data, item.mimeType);
-          console.log(JSON.stringify(imageInfo, null, 2));
-        }
-      }
-
-      if (result.isError) {
-        process.exit(1);
-      }
-    } catch (error) {
-      // Handle RoamError with structured output
-      if (error instanceof RoamError) {
-        console.error(`Error [${error.code || "UNKNOWN"}]: ${error.message}`);
-
-        // Show available graphs for GRAPH_NOT_SELECTED
-        if (error.code === ErrorCodes.GRAPH_NOT_SELECTED && error.context?.available_graphs) {
-          console.error("\nAvailable graphs:");
-          const graphs = error.context.available_graphs as Array<{
-            nickname: string;
-            name: string;
-          }>;
-          for (const g of graphs) {
-            console.error(`  - ${g.nickname} (${g.name})`);
-          }
-          console.error("\nUse --graph <nickname> to specify which graph to use.");
-        }
-
-        process.exit(1);
-      }
-
-      // Generic errors
-      const message = error instanceof Error ? error.message : String(error);
-      console.error(message);
-      process.exit(1);
-    }
+    await runTool(tool.name, args);
   });
 });
 
@@ -203,4 +237,383 @@ Examples:
   )
   .action((options) => connect(options));
 
+// ============================================================================
+// Default Graph Command
+// ============================================================================
+
+program
+  .command("use")
+  .description("Set the graph used when a command or tool call doesn't pass --graph")
+  .argument("[graph]", "Nickname, alias or name of a graph in the user config")
+  .option("--clear", "Remove the default from the user config")
+  .addHelpText(
+    "after",
+    `
+The default is stored as "default": true on the graph in the user config and applies to
+the CLI and MCP server alike. A default set in a project .roam-tools.json takes precedence.
+
+Examples:
+  roam use            Show the current default graph
+  roam use work       Make "work" the default
+  roam use --clear    Go back to requiring --graph when several graphs are configured
+`,
+  )
+  .action(async (graph: string | undefined, options) => {
+    try {
+      if (graph === undefined && !options.clear) {
+        const current = (await getConfiguredGraphs()).find((g) => g.default);
+        console.log(current ? `Default graph: ${current.nickname}` : "No default graph set.");
+        return;
+      }
+
+      const target = await setDefaultGraph(options.clear ? null : (graph ?? null));
+      console.log(target ? `Default graph: ${target.nickname}` : "Default graph cleared.");
+      // Another source (e.g. a project config) may still decide the effective default
+      const effective = (await getConfiguredGraphs()).find((g) => g.default);
+      if (effective && effective.nickname !== target?.nickname) {
+        console.error(
+          `Warning: "${effective.nickname}" remains the default because it is set by a higher-precedence config source (see roam config show --resolved).`,
+        );
+      }
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+// ============================================================================
+// Audit Log Command
+// ============================================================================
+
+function formatAuditEntry(entry: AuditEntry): string {
+  const status = entry.success ? "ok" : `FAILED: ${entry.error ?? "unknown error"}`;
+  const uids = entry.resultUids.length > 0 ? ` uids=${entry.resultUids.join(",")}` : "";
+  return (
+    `${entry.timestamp}  ${entry.graph}  ${entry.tool ?? "-"}  ${entry.action}  [${entry.caller}]  ${status}${uids}\n` +
+    `    args: ${JSON.stringify(entry.args)}`
+  );
+}
+
+program
+  .command("audit")
+  .description("List writes recorded in the local audit log")
+  .option("--graph <nickname>", "Only entries for this graph (nickname or graph name)")
+  .option("--tool <name>", "Only entries from this tool (e.g. update_block)")
+  .option("--since <time>", "Only entries at or after this time (ISO date or duration like 2h, 7d)")
+  .option("--until <time>", "Only entries at or before this time (ISO date or duration)")
+  .option("--limit <n>", "Show at most the N most recent entries", "50")
+  .option("--json", "Output entries as JSON lines")
+  .addHelpText(
+    "after",
+    `
+Examples:
+  roam audit                                    Most recent 50 writes
+  roam audit --graph work --since 2h            Writes to "work" in the last two hours
+  roam audit --tool delete_block --since 2026-03-01 --until 2026-03-31
+`,
+  )
+  .action(async (options) => {
+    const path = getAuditLogPath();
+    if (!path) {
+      console.error("Audit logging is disabled (ROAM_AUDIT_LOG=off).");
+      process.exit(1);
+    }
+
+    try {
+      const limit = Number(options.limit);
+      if (!Number.isInteger(limit) || limit < 0) {
+        throw new Error(`Invalid --limit "${options.limit}". Use a non-negative integer.`);
+      }
+      const entries = await readAuditEntries({
+        graph: options.graph,
+        tool: options.tool?.replace(/-/g, "_"),
+        since: options.since ? parseTimeFilter(options.since) : undefined,
+        until: options.until ? parseTimeFilter(options.until) : undefined,
+        limit,
+      });
+
+      if (options.json) {
+        for (const entry of entries) console.log(JSON.stringify(entry));
+        return;
+      }
+      if (entries.length === 0) {
+        console.log(`No matching entries in ${path}`);
+        return;
+      }
+      for (const entry of entries) console.log(formatAuditEntry(entry));
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+// ============================================================================
+// Config Command
+// ============================================================================
+
+// Tokens are never printed in full (secret references aren't secret)
+function maskToken(token: string): string {
+  if (isSecretRef(token)) return token;
+  return `${token.slice(0, "roam-graph-local-token-".length)}…${token.slice(-4)}`;
+}
+
+function formatSource(source: ConfigSource): string {
+  return source.kind === "env" ? "environment" : `${source.kind} (${source.location})`;
+}
+
+function formatGraph(graph: GraphConfig): string {
+  const defaults = [
+    graph.aliases?.length && `aliases=${graph.aliases.join(",")}`,
+    graph.defaultPage !== undefined && `defaultPage=${JSON.stringify(graph.defaultPage)}`,
+    graph.tools !== undefined && `tools=${graph.tools.join(",")}`,
+    graph.cacheTtlSeconds !== undefined && `cacheTtl=${graph.cacheTtlSeconds}s`,
+  ].filter(Boolean);
+  return (
+    `${graph.nickname}${graph.default ? " (default)" : ""}  name=${graph.name}  type=${graph.type}  ` +
+    `access=${graph.accessLevel ?? "full"}  token=${maskToken(graph.token)}` +
+    (defaults.length > 0 ? `  ${defaults.join("  ")}` : "") +
+    (graph.description ? `\n    ${graph.description}` : "")
+  );
+}
+
+const configCommand = program.command("config").description("Inspect graph configuration");
+
+configCommand
+  .command("show")
+  .description("Show configured graphs")
+  .option("--resolved", "Merge every config source and show where each graph came from")
+  .option("--json", "Output as JSON (tokens masked)")
+  .addHelpText(
+    "after",
+    `
+Config sources, highest precedence first:
+  1. ROAM_GRAPH + ROAM_TOKEN (+ ROAM_GRAPH_TYPE) environment variables
+  2. .roam-tools.json in the current directory or nearest parent (project config)
+  3. ROAM_TOOLS_CONFIG, else ~/.roam-tools.json (user config, written by "roam connect")
+
+Examples:
+  roam config show              Graphs in the user config
+  roam config show --resolved   Graphs from every source, with their origin
+`,
+  )
+  .action(async (options) => {
+    try {
+      const layered = await loadLayeredConfig();
+      const masked = (graph: GraphConfig) => ({ ...graph, token: maskToken(graph.token) });
+
+      if (!options.resolved) {
+        const graphs = layered.sources.find((source) => source.kind === "user")?.graphs ?? [];
+        if (options.json) {
+          console.log(
+            JSON.stringify({ path: getConfigPath(), graphs: graphs.map(masked) }, null, 2),
+          );
+          return;
+        }
+        console.log(`User config: ${getConfigPath()}`);
+        if (graphs.length === 0) console.log("  (no graphs)");
+        for (const graph of graphs) console.log(`  ${formatGraph(graph)}`);
+        return;
+      }
+
+      if (options.json) {
+        const graphs = layered.graphs.map((origin) => ({ ...origin, graph: masked(origin.graph) }));
+        const sources = layered.sources.map((source) => ({
+          ...source,
+          graphs: source.graphs?.map(masked) ?? null,
+        }));
+        console.log(JSON.stringify({ sources, graphs }, null, 2));
+        return;
+      }
+      console.log("Sources (highest precedence first):");
+      layered.sources.forEach((source, index) => {
+        const status = source.graphs ? "" : source.kind === "env" ? "  (not set)" : "  (not found)";
+        console.log(`  ${index + 1}. ${source.kind}: ${source.location}${status}`);
+      });
+      console.log("\nGraphs:");
+      if (layered.graphs.length === 0) console.log("  (none)");
+      for (const { graph, source, shadowed } of layered.graphs) {
+        console.log(`  ${formatGraph(graph)}`);
+        console.log(`    from ${formatSource(source)}`);
+        for (const other of shadowed) console.log(`    overrides ${formatSource(other)}`);
+      }
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+configCommand
+  .command("migrate-secrets")
+  .description("Move plaintext tokens from the user config into a secret store")
+  .requiredOption(
+    "--store <store>",
+    'Secret store: "keychain" (macOS Keychain, libsecret, Windows Credential Manager) or "encrypted" (passphrase-protected file)',
+  )
+  .option("--graph <nickname>", "Only migrate this graph")
+  .addHelpText(
+    "after",
+    `
+The config keeps a reference such as "keychain:roam/my-graph" in place of each token.
+The "encrypted" store reads its passphrase from ROAM_SECRETS_PASSPHRASE, which the MCP
+server then needs too. Set ROAM_SECRET_STORE to store tokens from future connects the same way.
+
+Examples:
+  roam config migrate-secrets --store keychain
+  ROAM_SECRETS_PASSPHRASE=... roam config migrate-secrets --store encrypted --graph work
+`,
+  )
+  .action(async (options) => {
+    try {
+      const { migrated, skipped } = await migrateTokensToSecretStore(options.store, options.graph);
+      for (const nickname of migrated) console.log(`Migrated ${nickname}`);
+      for (const nickname of skipped) console.log(`Skipped ${nickname} (already a reference)`);
+      if (migrated.length === 0 && skipped.length === 0) console.log("No graphs to migrate.");
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+// ============================================================================
+// Undo Command
+// ============================================================================
+
+program
+  .command("undo")
+  .description("Revert recent updates, moves and deletes using the local undo journal")
+  .option("--graph <nickname>", "Graph nickname or name")
+  .option("--count <n>", "Number of most recent changes to undo (default: 1)")
+  .option("--since <time>", "Undo every change since this time (ISO date or duration like 30m)")
+  .option("--dry-run", "Show what would be reverted without changing anything")
+  .addHelpText(
+    "after",
+    `
+Examples:
+  roam undo                         Undo the most recent change
+  roam undo --count 3 --graph work  Undo the last three changes in "work"
+  roam undo --since 10m --dry-run   Preview undoing everything from the last ten minutes
+`,
+  )
+  .action(async (options) => {
+    await runTool("undo_last_change", {
+      graph: options.graph,
+      count: options.count,
+      since: options.since,
+      dryRun: options.dryRun,
+    });
+  });
+
+// ============================================================================
+// Markdown Export Command
+// ============================================================================
+
+program
+  .command("export")
+  .description("Export pages to a folder of Markdown files, with attachments in assets/")
+  .option("--graph <nickname>", "Graph nickname or name")
+  .option("--page <title...>", "Title of a page to export (repeatable)")
+  .option("--all", "Export every page in the graph")
+  .requiredOption("--out <dir>", "Output directory")
+  .addHelpText(
+    "after",
+    `
+Examples:
+  roam export --page "Project X" --out ./backup
+  roam export --page "Project X" "Meeting Notes" --out ./backup
+  roam export --all --graph work --out ./work-backup
+`,
+  )
+  .action(async (options) => {
+    if (!options.all === !options.page) {
+      exitWithError(new Error("Use exactly one of --page or --all."));
+    }
+    try {
+      const graph = await resolveGraph(options.graph);
+      const client = await createClientForGraph(graph, { tool: "export", caller: "cli" });
+      const summary = await exportToMarkdown(client, {
+        outDir: options.out,
+        pages: options.page,
+        all: options.all,
+        onProgress: (message) => console.error(message),
+      });
+
+      console.log(
+        `Exported ${summary.pages} page(s) and ${summary.assets} attachment(s) to ${summary.outDir}`,
+      );
+      for (const title of summary.missingPages) console.error(`Page not found: ${title}`);
+      for (const { url, error } of summary.failedAssets) {
+        console.error(`Could not download ${url}: ${error}`);
+      }
+      if (summary.missingPages.length > 0 || summary.failedAssets.length > 0) process.exit(1);
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
+
+// ============================================================================
+// Markdown Import Command
+// ============================================================================
+
+const DEFAULT_MERGE_HEADER = "Imported";
+
+program
+  .command("import")
+  .description("Import a folder of Markdown files (e.g. an Obsidian vault), one page per file")
+  .argument("<dir>", "Folder to import (searched recursively; dot-folders are skipped)")
+  .option("--graph <nickname>", "Graph nickname or name")
+  .option("--dry-run", "Show what would be imported without uploading or writing anything")
+  .option("--skip-existing", "Leave pages that already exist untouched")
+  .option(
+    "--merge [header]",
+    `Append to existing pages, nested under a block with this text (default: "${DEFAULT_MERGE_HEADER}")`,
+  )
+  .option("--verbose", "With --dry-run, print the converted markdown for each page")
+  .addHelpText(
+    "after",
+    `
+Examples:
+  roam import ./vault --dry-run
+  roam import ./vault --graph work --skip-existing
+  roam import ./vault --merge "From Obsidian"
+`,
+  )
+  .action(async (dir: string, options) => {
+    try {
+      const graph = await resolveGraph(options.graph);
+      if (!options.dryRun && !ACCESS_LEVEL_SCOPES[graph.accessLevel ?? "full"].includes("append")) {
+        throw new RoamError(
+          `Importing needs append access, but "${graph.nickname}" is connected as ${graph.accessLevel}.`,
+          ErrorCodes.INSUFFICIENT_SCOPE,
+        );
+      }
+      const client = await createClientForGraph(graph, { tool: "import", caller: "cli" });
+      const summary = await importFromMarkdown(client, {
+        dir,
+        dryRun: options.dryRun,
+        skipExisting: options.skipExisting,
+        merge: options.merge === true ? DEFAULT_MERGE_HEADER : options.merge,
+        onProgress: (message) => console.error(message),
+      });
+
+      for (const file of summary.files) {
+        const uploads = file.uploads.length > 0 ? ` (${file.uploads.length} image(s))` : "";
+        const error = file.error ? `: ${file.error}` : "";
+        console.log(`${file.action.padEnd(8)} ${file.title}  <- ${file.file}${uploads}${error}`);
+        if (options.verbose && file.markdown !== undefined) {
+          console.log(file.markdown.replace(/^/gm, "    "));
+        }
+      }
+
+      const count = (action: string) => summary.files.filter((f) => f.action === action).length;
+      const prefix = summary.dryRun ? "Dry run — would import" : "Imported";
+      console.log(
+        `\n${prefix} ${count("create")} new and ${count("merge")} merged page(s); ` +
+          `${count("skip")} skipped, ${count("conflict")} already existed, ${count("failed")} failed.`,
+      );
+      if (count("failed") > 0 || count("conflict") > 0) process.exit(1);
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
+
 program.parse();
@@ -0,0 +1,28 @@
+// src/core/actions.ts
+// Classification of Local API actions
+
+// Actions that modify the graph (or its files). Everything else is a read or UI action.
+export const WRITE_ACTIONS: ReadonlySet<string> = new Set([
+  "data.block.fromMarkdown",
+  "data.block.update",
+  "data.block.move",
+  "data.block.delete",
+  "data.block.addComment",
+  "data.page.fromMarkdown",
+  "data.page.update",
+  "data.page.delete",
+  "file.upload",
+  "file.delete",
+]);
+
+export function isWriteAction(action: string): boolean {
+  return WRITE_ACTIONS.has(action);
+}
+
+// Read actions whose responses the client may cache (see cache.ts)
+export const CACHEABLE_ACTIONS: ReadonlySet<string> = new Set([
+  "data.ai.getPage",
+  "data.ai.getBlock",
+  "data.ai.search",
+  "q",
+]);
@@ -0,0 +1,208 @@
+// src/core/audit.ts
+// Local JSONL audit log of every write sent through RoamClient.call.
+// Roam has no undo history for API changes, so this is the record of what was done.
+
+import { appendFile, readFile, rename, stat, unlink } from "fs/promises";
+import { homedir } from "os";
+import { join } from "path";
+import type { AuditCaller } from "./types.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface AuditEntry {
+  timestamp: string; // ISO 8601
+  graph: string; // Graph nickname (or name when no nickname is known)
+  graphName: string;
+  tool?: string;
+  action: string;
+  args: unknown[];
+  resultUids: string[];
+  caller: AuditCaller;
+  success: boolean;
+  error?: string;
+}
+
+export interface AuditFilter {
+  graph?: string; // Nickname or graph name
+  tool?: string;
+  since?: Date;
+  until?: Date;
+  limit?: number; // Most recent N entries
+}
+
+// ============================================================================
+// Location and rotation
+// ============================================================================
+
+const DEFAULT_AUDIT_LOG_PATH = join(homedir(), ".roam-tools-audit.jsonl");
+
+// Rotate when the active log would exceed this size; keep this many old files (.1 is newest)
+const MAX_AUDIT_LOG_BYTES = 5 * 1024 * 1024;
+const MAX_ROTATED_FILES = 3;
+
+// Long strings in args (e.g. base64 file uploads) are truncated to keep the log readable
+const MAX_LOGGED_STRING_LENGTH = 2000;
+
+/**
+ * Audit log path. ROAM_AUDIT_LOG overrides the location; set it to "off" to disable logging.
+ */
+export function getAuditLogPath(): string | null {
+  const override = process.env.ROAM_AUDIT_LOG?.trim();
+  if (override && ["off", "false", "0"].includes(override.toLowerCase())) return null;
+  return override || DEFAULT_AUDIT_LOG_PATH;
+}
+
+/**
+ * Size-based rotation for local JSONL logs: when appending would push `path` past `maxBytes`,
+ * shift `path` -> `path.1` -> ... -> `path.<maxFiles>` (dropping the oldest).
+ */
+export async function rotateLogFile(
+  path: string,
+  incomingBytes: number,
+  maxBytes: number,
+  maxFiles: number,
+): Promise<void> {
+  let size: number;
+  try {
+    size = (await stat(path)).size;
+  } catch {
+    return; // No log yet
+  }
+  if (size + incomingBytes <= maxBytes) return;
+
+  try {
+    await unlink(`${path}.${maxFiles}`);
+  } catch {
+    // Oldest rotated file may not exist
+  }
+  for (let i = maxFiles - 1; i >= 1; i -= 1) {
+    try {
+      await rename(`${path}.${i}`, `${path}.${i + 1}`);
+    } catch {
+      // Gaps are fine
+    }
+  }
+  await rename(path, `${path}.1`);
+}
+
+// ============================================================================
+// Writing
+// ============================================================================
+
+function truncateLongStrings(value: unknown): unknown {
+  if (typeof value === "string") {
+    return value.length > MAX_LOGGED_STRING_LENGTH
+      ? `${value.slice(0, MAX_LOGGED_STRING_LENGTH)}… [${value.length} chars]`
+      : value;
+  }
+  if (Array.isArray(value)) return value.map(truncateLongStrings);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, truncateLongStrings(v)]));
+  }
+  return value;
+}
+
+/**
+ * Pull created/affected uids out of a write action's result ({ uids } or { uid }).
+ */
+export function extractResultUids(result: unknown): string[] {
+  if (!result || typeof result !== "object") return [];
+  const { uids, uid } = result as { uids?: unknown; uid?: unknown };
+  if (Array.isArray(uids)) return uids.filter((u): u is string => typeof u === "string");
+  if (typeof uid === "string" && uid) return [uid];
+  return [];
+}
+
+/**
+ * Append an entry to the audit log. Best-effort: failures are reported on stderr
+ * but never fail the write that was already applied.
+ */
+export async function appendAuditEntry(entry: AuditEntry): Promise<void> {
+  const path = getAuditLogPath();
+  if (!path) return;
+  try {
+    const line =
+      JSON.stringify({ ...entry, args: truncateLongStrings(entry.args) as unknown[] }) + "\n";
+    await rotateLogFile(path, Buffer.byteLength(line), MAX_AUDIT_LOG_BYTES, MAX_ROTATED_FILES);
+    // Args can contain graph content, so keep the log private like ~/.roam-tools.json
+    await appendFile(path, line, { mode: 0o600 });
+  } catch (error) {
+    console.error(
+      `[roam-tools] WARNING: Could not write audit log ${path}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+// ============================================================================
+// Reading
+// ============================================================================
+
+/**
+ * Parse a time filter: an ISO date/time, or a relative duration like "30m", "2h", "7d".
+ */
+export function parseTimeFilter(value: string, now: Date = new Date()): Date {
+  const relative = /^(\d+)\s*(s|m|h|d|w)$/.exec(value.trim());
+  if (relative) {
+    const unitMs = { s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000, w: 604_800_000 };
+    const amount = Number(relative[1]) * unitMs[relative[2] as keyof typeof unitMs];
+    return new Date(now.getTime() - amount);
+  }
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(
+      `Invalid time "${value}". Use an ISO date (2026-03-17 or 2026-03-17T09:00) or a duration like 30m, 2h, 7d.`,
+    );
+  }
+  return date;
+}
+
+/**
+ * Read a JSONL file, skipping unparseable lines. A missing file reads as empty.
+ */
+export async function readJsonlFile<T>(path: string): Promise<T[]> {
+  let content: string;
+  try {
+    content = await readFile(path, "utf-8");
+  } catch {
+    return [];
+  }
+  const entries: T[] = [];
+  for (const line of content.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line) as T);
+    } catch {
+      // Skip partially written lines
+    }
+  }
+  return entries;
+}
+
+/**
+ * Read audit entries (oldest first) across the active and rotated log files.
+ */
+export async function readAuditEntries(filter: AuditFilter = {}): Promise<AuditEntry[]> {
+  const path = getAuditLogPath();
+  if (!path) return [];
+
+  const files = [];
+  for (let i = MAX_ROTATED_FILES; i >= 1; i -= 1) files.push(`${path}.${i}`);
+  files.push(path);
+
+  const all = (await Promise.all(files.map((file) => readJsonlFile<AuditEntry>(file)))).flat();
+  const graph = filter.graph?.toLowerCase();
+  const matching = all.filter((entry) => {
+    if (graph && entry.graph.toLowerCase() !== graph && entry.graphName !== filter.graph) {
+      return false;
+    }
+    if (filter.tool && entry.tool !== filter.tool) return false;
+    const time = new Date(entry.timestamp).getTime();
+    if (filter.since && time < filter.since.getTime()) return false;
+    if (filter.until && time > filter.until.getTime()) return false;
+    return true;
+  });
+
+  return filter.limit !== undefined ? matching.slice(-filter.limit) : matching;
+}
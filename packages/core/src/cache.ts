@@ -0,0 +1,127 @@
+// src/core/cache.ts
+// TTL cache for read responses, shared by all clients for the same graph, address and token
+
+import type { RoamResponse } from "./types.js";
+
+// Oldest entries are evicted past this size
+const MAX_CACHE_ENTRIES = 500;
+
+export interface CacheStats {
+  ttlMs: number;
+  size: number;
+  hits: number;
+  misses: number;
+  invalidations: number;
+}
+
+interface CacheEntry {
+  expiresAt: number;
+  response: RoamResponse<unknown>;
+}
+
+export class ResponseCache {
+  private entries = new Map<string, CacheEntry>();
+  // Bumped on every invalidation so reads that were in flight during a write aren't stored
+  private generation = 0;
+  private hits = 0;
+  private misses = 0;
+  private invalidations = 0;
+
+  constructor(readonly ttlMs: number) {}
+
+  private get<T>(key: string): RoamResponse<T> | undefined {
+    const entry = this.entries.get(key);
+    if (entry && entry.expiresAt > Date.now()) {
+      this.hits += 1;
+      // Callers may mutate results, so never hand out the cached object itself
+      return structuredClone(entry.response) as RoamResponse<T>;
+    }
+    if (entry) this.entries.delete(key);
+    this.misses += 1;
+    return undefined;
+  }
+
+  /**
+   * Wrap a read: serve it from the cache, or send it and cache the response unless a
+   * write invalidated the cache while it was in flight.
+   */
+  async fetch<T>(
+    action: string,
+    args: unknown[],
+    send: () => Promise<RoamResponse<T>>,
+  ): Promise<RoamResponse<T>> {
+    const key = JSON.stringify([action, args]);
+    const cached = this.get<T>(key);
+    if (cached) return cached;
+    const generation = this.generation;
+    const response = await send();
+    if (generation === this.generation) this.set(key, response);
+    return response;
+  }
+
+  private set(key: string, response: RoamResponse<unknown>): void {
+    this.entries.delete(key);
+    this.entries.set(key, {
+      expiresAt: Date.now() + this.ttlMs,
+      response: structuredClone(response),
+    });
+    if (this.entries.size > MAX_CACHE_ENTRIES) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+
+  invalidate(): void {
+    this.generation += 1;
+    this.invalidations += 1;
+    this.entries.clear();
+  }
+
+  stats(): CacheStats {
+    return {
+      ttlMs: this.ttlMs,
+      size: this.entries.size,
+      hits: this.hits,
+      misses: this.misses,
+      invalidations: this.invalidations,
+    };
+  }
+}
+
+// Caches by graph key (graph plus where it is reached), then by token, so every client
+// (the MCP server creates one per tool call) shares one, but clients that could see different
+// data (another server, another token) never do
+const caches = new Map<string, Map<string, ResponseCache>>();
+
+export function getResponseCache(graphKey: string, tokenKey: string, ttlMs: number): ResponseCache {
+  let byToken = caches.get(graphKey);
+  if (!byToken) {
+    byToken = new Map();
+    caches.set(graphKey, byToken);
+  }
+  let cache = byToken.get(tokenKey);
+  if (!cache || cache.ttlMs !== ttlMs) {
+    cache = new ResponseCache(ttlMs);
+    byToken.set(tokenKey, cache);
+  }
+  return cache;
+}
+
+/** Clear the graph's caches for every token, since a write through one changes what all see. */
+export function invalidateResponseCache(graphKey: string): void {
+  for (const cache of caches.get(graphKey)?.values() ?? []) cache.invalidate();
+}
+
+/**
+ * Default cache TTL in milliseconds from ROAM_CACHE_TTL (in seconds). Unset, "off" or 0
+ * disables caching.
+ */
+export function getCacheTtlMs(): number {
+  const value = process.env.ROAM_CACHE_TTL?.trim().toLowerCase();
+  if (!value || ["off", "false", "0"].includes(value)) return 0;
+  const seconds = Number(value);
+  if (!Number.isFinite(seconds) || seconds <= 0) {
+    console.error(`[roam-tools] WARNING: Ignoring invalid ROAM_CACHE_TTL "${value}"`);
+    return 0;
+  }
+  return seconds * 1000;
+}
@@ -1,11 +1,10 @@
 // src/core/client.ts
 // v2.0.0 - Token-authenticated Roam Local API client
 
-import { readFile } from "fs/promises";
-import { homedir } from "os";
-import { join } from "path";
 import open from "open";
+import { createHash } from "crypto";
 import type {
+  AuditContext,
   RoamResponse,
   RoamClientConfig,
   RoamApiError,
@@ -14,12 +13,65 @@ import type {
   TokenInfoResponse,
 } from "./types.js";
 import { EXPECTED_API_VERSION, getErrorMessage, RoamError, ErrorCodes } from "./types.js";
+import { CACHEABLE_ACTIONS, isWriteAction } from "./actions.js";
+import type { CacheStats, ResponseCache } from "./cache.js";
+import { getCacheTtlMs, getResponseCache, invalidateResponseCache } from "./cache.js";
+import type { Transport } from "./transport.js";
+import { HttpTransport } from "./transport.js";
+import { appendAuditEntry, extractResultUids } from "./audit.js";
+import type { PendingJournalEntry } from "./journal.js";
+import {
+  appendJournalEntry,
+  capturePreImage,
+  getJournalPath,
+  JOURNALED_ACTIONS,
+} from "./journal.js";
+
+export interface CallOptions {
+  journal?: boolean; // Set false to skip the undo journal (e.g. when replaying an undo)
+  timeoutMs?: number; // Overrides the client's timeout for this call; 0 disables it
+  signal?: AbortSignal; // Overrides the client's signal for this call
+  preImage?: PendingJournalEntry | null; // From snapshotBeforeWrite; journaled instead of a new snapshot
+}
+
+const DEFAULT_TIMEOUT_MS = 60_000;
+
+const transportIds = new WeakMap<Transport, number>();
+let nextTransportId = 1;
+
+function transportId(transport: Transport): number {
+  let id = transportIds.get(transport);
+  if (id === undefined) {
+    id = nextTransportId++;
+    transportIds.set(transport, id);
+  }
+  return id;
+}
+
+/**
+ * Default request timeout from ROAM_REQUEST_TIMEOUT (in seconds); "off" or 0 disables it.
+ */
+function getDefaultTimeoutMs(): number {
+  const value = process.env.ROAM_REQUEST_TIMEOUT?.trim().toLowerCase();
+  if (!value) return DEFAULT_TIMEOUT_MS;
+  if (["off", "false", "0"].includes(value)) return 0;
+  const seconds = Number(value);
+  if (!Number.isFinite(seconds) || seconds <= 0) {
+    console.error(`[roam-tools] WARNING: Ignoring invalid ROAM_REQUEST_TIMEOUT "${value}"`);
+    return DEFAULT_TIMEOUT_MS;
+  }
+  return seconds * 1000;
+}
 
 export class RoamClient {
   private graphName: string;
   private graphType: GraphType;
   private token: string;
-  private port: number | null = null;
+  private transport: Transport;
+  private audit: AuditContext | false;
+  private cache: ResponseCache | null;
+  private timeoutMs: number;
+  private signal: AbortSignal | undefined;
 
   constructor(config: RoamClientConfig) {
     if (!config.graphName) {
@@ -36,24 +88,40 @@ export class RoamClient {
     this.graphName = config.graphName;
     this.graphType = config.graphType;
     this.token = config.token;
-    if (config.port) {
-      this.port = config.port;
-    }
+    this.transport =
+      config.transport ?? new HttpTransport({ host: config.host, port: config.port });
+    this.audit = config.audit ?? {};
+    this.timeoutMs = config.timeoutMs ?? getDefaultTimeoutMs();
+    this.signal = config.signal;
+    const ttlMs = config.cacheTtlMs ?? getCacheTtlMs();
+    this.cache = ttlMs > 0 ? getResponseCache(this.cacheKey(), this.tokenCacheKey(), ttlMs) : null;
   }
 
-  private async getPort(): Promise<number> {
-    if (this.port) return this.port;
+  // Graph plus where it is reached: HTTP transports to the same address share a cache, any
+  // other transport (e.g. a FakeRoamServer or a replayed fixture) gets its own
+  private cacheKey(): string {
+    const via =
+      this.transport instanceof HttpTransport
+        ? this.transport.endpoint
+        : `transport-${transportId(this.transport)}`;
+    return `${via}:${this.graphType}:${this.graphName}`;
+  }
 
-    try {
-      const configFile = join(homedir(), ".roam-local-api.json");
-      const content = await readFile(configFile, "utf-8");
-      const config = JSON.parse(content) as { port: number };
-      this.port = config.port;
-      return this.port;
-    } catch {
-      // Default port if file doesn't exist
-      return 3333;
-    }
+  // Tokens may see different data, so each gets its own cache (keyed by hash, not the token)
+  private tokenCacheKey(): string {
+    return createHash("sha256").update(this.token).digest("hex").slice(0, 16);
+  }
+
+  /**
+   * Hit/miss counts for the read cache shared by this graph's clients, or null if caching
+   * is off.
+   */
+  getCacheStats(): CacheStats | null {
+    return this.cache?.stats() ?? null;
+  }
+
+  getGraph(): { name: string; type: GraphType } {
+    return { name: this.graphName, type: this.graphType };
   }
 
   private async openRoamDeepLink(): Promise<void> {
@@ -61,8 +129,41 @@ export class RoamClient {
     await open(deepLink);
   }
 
-  private async sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+  // Resolves after ms, or rejects as soon as the signal aborts
+  private async sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(this.cancelledError());
+        return;
+      }
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(this.cancelledError());
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+
+  private cancelledError(): RoamError {
+    return new RoamError("The request was cancelled.", ErrorCodes.CANCELLED);
+  }
+
+  private timeoutError(action: string, timeoutMs: number): RoamError {
+    const seconds = Math.round(timeoutMs / 100) / 10;
+    const writeNote = isWriteAction(action)
+      ? " The change may still have been applied, so check before retrying."
+      : "";
+    return new RoamError(
+      `Roam did not respond to ${action} within ${seconds}s.${writeNote} ` +
+        "If the graph is encrypted, Roam may be waiting for its password: open Roam, unlock the graph and retry. " +
+        "For slow queries or large exports, raise ROAM_REQUEST_TIMEOUT (in seconds).",
+      ErrorCodes.TIMEOUT,
+      { action, timeoutMs },
+    );
   }
 
   private isConnectionError(error: unknown): boolean {
@@ -229,35 +330,29 @@ export class RoamClient {
    */
   async getTokenInfo(): Promise<TokenInfoResult> {
     try {
-      const port = await this.getPort();
-      const response = await fetch(`http://127.0.0.1:${port}/api/graphs/tokens/info`, {
+      const response = await this.transport.request({
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
+        path: "/api/graphs/tokens/info",
+        body: {
           token: this.token,
           graph: this.graphName,
           type: this.graphType,
-        }),
+        },
+        signal: this.signal,
       });
 
       if (response.status === 401) {
-        try {
-          const data = (await response.json()) as {
-            error?: { code?: string } | string;
-          };
-          const code = typeof data.error === "object" ? data.error?.code : undefined;
-          if (code === "TOKEN_NOT_FOUND") {
-            return { status: "revoked" };
-          }
-        } catch {
-          // Couldn't parse 401 body
+        const data = response.body as { error?: { code?: string } | string } | null;
+        const code = typeof data?.error === "object" ? data.error?.code : undefined;
+        if (code === "TOKEN_NOT_FOUND") {
+          return { status: "revoked" };
         }
         return { status: "unknown" };
       }
 
-      if (!response.ok) return { status: "unknown" };
+      if (response.status < 200 || response.status >= 300) return { status: "unknown" };
 
-      const data = (await response.json()) as TokenInfoResponse;
+      const data = response.body as TokenInfoResponse;
       if (!data.success) return { status: "unknown" };
       return { status: "active", info: data };
     } catch {
@@ -265,34 +360,155 @@ export class RoamClient {
     }
   }
 
-  async call<T = unknown>(action: string, args: unknown[] = []): Promise<RoamResponse<T>> {
+  /**
+   * Call a Local API action. Writes are recorded in the local audit log, whether they
+   * succeed or fail, and updates/moves/deletes are snapshotted into the undo journal first.
+   * With caching on, getPage/getBlock/search/q responses are reused until the TTL expires or
+   * any write to the graph goes through a client.
+   */
+  async call<T = unknown>(
+    action: string,
+    args: unknown[] = [],
+    options: CallOptions = {},
+  ): Promise<RoamResponse<T>> {
+    if (!isWriteAction(action)) {
+      if (this.cache && CACHEABLE_ACTIONS.has(action)) {
+        return this.cache.fetch(action, args, () => this.send<T>(action, args, options));
+      }
+      return this.send<T>(action, args, options);
+    }
+
+    let pending: PendingJournalEntry | null = null;
+    if (options.journal !== false) {
+      pending =
+        options.preImage !== undefined
+          ? options.preImage
+          : await this.capturePreImage(action, args);
+    }
+    const audit = this.audit;
+    const nickname = (audit && audit.nickname) || this.graphName;
+    const record = async (success: boolean, result?: unknown, error?: unknown) => {
+      if (!audit) return;
+      await appendAuditEntry({
+        timestamp: new Date().toISOString(),
+        graph: nickname,
+        graphName: this.graphName,
+        tool: audit.tool,
+        action,
+        args,
+        resultUids: extractResultUids(result),
+        caller: audit.caller ?? "library",
+        success,
+        ...(error !== undefined && {
+          error: error instanceof Error ? error.message : String(error),
+        }),
+      });
+    };
+
+    try {
+      const response = await this.send<T>(action, args, options);
+      await record(true, response.result);
+      if (pending) {
+        await appendJournalEntry({
+          graph: nickname,
+          graphName: this.graphName,
+          graphType: this.graphType,
+          tool: audit ? audit.tool : undefined,
+          action,
+          args,
+          ...pending,
+        });
+      }
+      return response;
+    } catch (error) {
+      await record(false, undefined, error);
+      throw error;
+    } finally {
+      // Even a failed write may have changed something
+      invalidateResponseCache(this.cacheKey());
+    }
+  }
+
+  /**
+   * Snapshot what a journaled write is about to change, with the calls that reverse it.
+   * Unlike the undo journal, this runs even when journaling is off and throws on failure
+   * (batch_operations uses it to roll back). Pass it to call() as preImage so the write
+   * isn't snapshotted a second time.
+   */
+  async snapshotBeforeWrite(action: string, args: unknown[]): Promise<PendingJournalEntry | null> {
+    return capturePreImage((a, b) => this.send(a, b), action, args);
+  }
+
+  // Best-effort: a failed snapshot never blocks the write itself
+  private async capturePreImage(
+    action: string,
+    args: unknown[],
+  ): Promise<PendingJournalEntry | null> {
+    if (!JOURNALED_ACTIONS.has(action) || !getJournalPath()) return null;
+    try {
+      return await capturePreImage((a, b) => this.send(a, b), action, args);
+    } catch (error) {
+      console.error(
+        `[roam-tools] WARNING: Could not snapshot ${action} for undo: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return null;
+    }
+  }
+
+  private async send<T>(
+    action: string,
+    args: unknown[],
+    options: CallOptions = {},
+  ): Promise<RoamResponse<T>> {
+    const timeoutMs = options.timeoutMs ?? this.timeoutMs;
+    const signal = options.signal ?? this.signal;
+
     const doRequest = async (): Promise<{
       data: RoamResponse<T>;
       status: number;
     }> => {
-      const port = await this.getPort();
-
-      // Build URL with graph name and optional type parameter
-      let url = `http://127.0.0.1:${port}/api/${this.graphName}`;
+      // Path with graph name and optional type parameter
+      let path = `/api/${this.graphName}`;
       if (this.graphType === "offline") {
-        url += "?type=offline";
+        path += "?type=offline";
       }
 
-      const response = await fetch(url, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${this.token}`,
-        },
-        body: JSON.stringify({
-          action,
-          args,
-          expectedApiVersion: EXPECTED_API_VERSION,
-        }),
-      });
-
-      const data = (await response.json()) as RoamResponse<T>;
-      return { data, status: response.status };
+      // One controller per attempt, aborted by the timeout or the caller's signal
+      if (signal?.aborted) throw this.cancelledError();
+      const controller = new AbortController();
+      const onAbort = () => controller.abort();
+      signal?.addEventListener("abort", onAbort, { once: true });
+      const timer = timeoutMs > 0 ? setTimeout(() => controller.abort(), timeoutMs) : undefined;
+
+      try {
+        // Race the abort too, so a transport that ignores the signal can't hang the call
+        const aborted = new Promise<never>((_, reject) =>
+          controller.signal.addEventListener("abort", () => reject(controller.signal.reason), {
+            once: true,
+          }),
+        );
+        const request = this.transport.request({
+          method: "POST",
+          path,
+          headers: { Authorization: `Bearer ${this.token}` },
+          body: {
+            action,
+            args,
+            expectedApiVersion: EXPECTED_API_VERSION,
+          },
+          signal: controller.signal,
+        });
+        const response = await Promise.race([request, aborted]);
+        return { data: response.body as RoamResponse<T>, status: response.status };
+      } catch (error) {
+        if (controller.signal.aborted) {
+          throw signal?.aborted ? this.cancelledError() : this.timeoutError(action, timeoutMs);
+        }
+        throw error;
+      } finally {
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+      }
     };
 
     try {
@@ -302,18 +518,21 @@ export class RoamClient {
     } catch (error) {
       // If connection failed, try opening Roam and retry
       if (this.isConnectionError(error)) {
-        // Reset cached port so we re-read from config after Roam starts
-        this.port = null;
-        try {
-          await this.openRoamDeepLink();
-        } catch {
-          // Best-effort — don't let deep link failure prevent retries
+        // Reset cached connection details (the port) so they're re-read after Roam starts
+        this.transport.reset?.();
+        // Only a local Roam can be launched from here (not a remote host or a fake transport)
+        if (this.transport instanceof HttpTransport && this.transport.isLocal()) {
+          try {
+            await this.openRoamDeepLink();
+          } catch {
+            // Best-effort — don't let deep link failure prevent retries
+          }
         }
 
         let delay = 500;
         const maxDelay = 15000;
         for (let attempt = 0; attempt < 8; attempt += 1) {
-          await this.sleep(delay);
+          await this.sleep(delay, signal);
           try {
             const { data, status } = await doRequest();
             this.checkResponse(data, status);
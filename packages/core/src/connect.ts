@@ -4,8 +4,10 @@ import {
   getConfiguredGraphsSafe,
   saveGraphToConfig,
   removeGraphFromConfig,
+  getConfigPath,
 } from "./graph-resolver.js";
 import { fetchAvailableGraphs, requestToken, sleep, openRoamApp, slugify } from "./roam-api.js";
+import { getApiHost, isLocalHost, localApiUrl } from "./transport.js";
 import type { GraphConfig, GraphType, AccessLevel } from "./types.js";
 import type { AvailableGraph, GraphsResponse, TokenExchangeResponse } from "./roam-api.js";
 
@@ -38,7 +40,7 @@ export interface ConnectOptions {
 // ============================================================================
 
 async function fetchOpenGraphs(port: number): Promise<AvailableGraph[]> {
-  const url = `http://127.0.0.1:${port}/api/graphs/open`;
+  const url = `${localApiUrl(port)}/api/graphs/open`;
   const response = await fetch(url, {
     method: "GET",
     headers: { "Content-Type": "application/json" },
@@ -173,6 +175,12 @@ export async function connect(options: ConnectOptions = {}): Promise<void> {
   } catch (error) {
     const err = error as Error & { cause?: { code?: string } };
     if (err.cause?.code === "ECONNREFUSED" || err.message.includes("fetch failed")) {
+      if (!isLocalHost(getApiHost())) {
+        // Roam on another machine (ROAM_API_HOST) can't be launched from here
+        console.error(`\nCould not connect to Roam Desktop at ${localApiUrl(port)}.`);
+        console.error("Please make sure Roam is running there and try again.");
+        process.exit(1);
+      }
       console.log("Roam Desktop is not running. Opening...");
       await openRoamApp();
       console.log("Waiting for Roam to start...");
@@ -588,7 +596,7 @@ export async function connect(options: ConnectOptions = {}): Promise<void> {
   await saveGraphToConfig(graphConfig);
 
   console.log(
-    `\nConnected! Graph ${finalSelectedGraph.name} (nickname: ${nickname}) has been saved to ~/.roam-tools.json`,
+    `\nConnected! Graph ${finalSelectedGraph.name} (nickname: ${nickname}) has been saved to ${getConfigPath()}`,
   );
   console.log(`\nGranted permissions: ${result.grantedAccessLevel}`);
 
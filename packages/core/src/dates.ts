@@ -0,0 +1,122 @@
+// src/core/dates.ts
+// Roam daily note page titles ("October 19th, 2026") and uids ("10-19-2026"), and
+// resolution of the date formats tools accept ("today", "next monday", ISO dates...).
+
+const MONTHS = [
+  "January",
+  "February",
+  "March",
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December",
+];
+
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+
+const DAILY_NOTE_TITLE = /^([A-Z][a-z]+) (\d{1,2})(?:st|nd|rd|th), (\d{4})$/;
+
+function pad(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+// A local-time date at midnight, or null if the parts don't form a real date
+function makeDate(year: number, month: number, day: number): Date | null {
+  const date = new Date(year, month - 1, day);
+  return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day
+    ? date
+    : null;
+}
+
+function ordinal(day: number): string {
+  if (day >= 11 && day <= 13) return `${day}th`;
+  return `${day}${["th", "st", "nd", "rd"][day % 10] ?? "th"}`;
+}
+
+/**
+ * Daily note page title for a date, e.g. "October 19th, 2026".
+ */
+export function dailyNoteTitle(date: Date): string {
+  return `${MONTHS[date.getMonth()]} ${ordinal(date.getDate())}, ${date.getFullYear()}`;
+}
+
+/**
+ * Daily note page uid for a date (MM-DD-YYYY), as used by dailyNotePage targets.
+ */
+export function dailyNoteUid(date: Date): string {
+  return `${pad(date.getMonth() + 1)}-${pad(date.getDate())}-${date.getFullYear()}`;
+}
+
+/**
+ * ISO date (YYYY-MM-DD) in local time.
+ */
+export function toIsoDate(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Parse a daily note page title into an ISO date (YYYY-MM-DD), or null if the title
+ * isn't a daily note page.
+ */
+export function parseDailyNoteTitle(title: string): string | null {
+  const match = DAILY_NOTE_TITLE.exec(title);
+  if (!match) return null;
+  const date = makeDate(Number(match[3]), MONTHS.indexOf(match[1]) + 1, Number(match[2]));
+  return date ? toIsoDate(date) : null;
+}
+
+/**
+ * Resolve a date given as "today", "yesterday", "tomorrow", "next monday", "last friday",
+ * "this wednesday", "3 days ago", "in 2 weeks", YYYY-MM-DD, MM-DD-YYYY or a daily note title
+ * ("October 19th, 2026", optionally in [[brackets]]). Returns local midnight; throws on
+ * anything else.
+ */
+export function resolveDate(input: string, now: Date = new Date()): Date {
+  const value = input.trim().replace(/^\[\[(.*)\]\]$/, "$1");
+  const lower = value.toLowerCase();
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const addDays = (days: number): Date =>
+    new Date(today.getFullYear(), today.getMonth(), today.getDate() + days);
+
+  if (lower === "today") return today;
+  if (lower === "yesterday") return addDays(-1);
+  if (lower === "tomorrow") return addDays(1);
+
+  const weekday = /^(next|last|this) (\w+)$/.exec(lower);
+  if (weekday && WEEKDAYS.includes(weekday[2])) {
+    const target = WEEKDAYS.indexOf(weekday[2]);
+    const current = today.getDay();
+    if (weekday[1] === "next") return addDays((target - current + 7) % 7 || 7);
+    if (weekday[1] === "last") return addDays(-((current - target + 7) % 7 || 7));
+    // "this": the day in the current week (Monday to Sunday)
+    return addDays(((target + 6) % 7) - ((current + 6) % 7));
+  }
+
+  const relative = /^(?:(\d+) (day|week)s? ago|in (\d+) (day|week)s?)$/.exec(lower);
+  if (relative) {
+    const amount = Number(relative[1] ?? relative[3]);
+    const days = amount * ((relative[2] ?? relative[4]) === "week" ? 7 : 1);
+    return addDays(relative[1] !== undefined ? -days : days);
+  }
+
+  let date: Date | null = null;
+  const iso = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  const us = /^(\d{2})-(\d{2})-(\d{4})$/.exec(value);
+  if (iso) date = makeDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+  else if (us) date = makeDate(Number(us[3]), Number(us[1]), Number(us[2]));
+  else {
+    const title = parseDailyNoteTitle(value);
+    if (title) date = resolveDate(title);
+  }
+  if (!date) {
+    throw new Error(
+      `Invalid date "${input}". Use YYYY-MM-DD, MM-DD-YYYY, a daily note title like "October 19th, 2026", or today/yesterday/tomorrow/next monday/3 days ago`,
+    );
+  }
+  return date;
+}
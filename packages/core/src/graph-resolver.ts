@@ -1,10 +1,12 @@
 // src/core/graph-resolver.ts
 // Stateless config-based graph resolution with token authentication
 
-import { readFile, writeFile, chmod, stat } from "fs/promises";
+import { readFile, writeFile, chmod, stat, rename, copyFile, unlink } from "fs/promises";
 import { homedir } from "os";
-import { join } from "path";
+import { existsSync, constants as fsConstants } from "fs";
+import { dirname, join, resolve } from "path";
 import {
+  GraphConfigSchema,
   RoamMcpConfigSchema,
   RoamMcpConfig,
   GraphConfig,
@@ -12,11 +14,25 @@ import {
   RoamError,
   ErrorCodes,
   AccessLevel,
+  AuditContext,
+  RoamClientConfig,
   CONFIG_VERSION,
 } from "./types.js";
+import { RoamClient } from "./client.js";
+import { slugify } from "./roam-api.js";
+import { getApiHost, localApiUrl } from "./transport.js";
+import {
+  deleteSecret,
+  getDefaultSecretScheme,
+  getSecretStore,
+  graphSecretKey,
+  isSecretRef,
+  resolveSecret,
+  storeSecret,
+} from "./secrets.js";
 
 // Warning suppression flags (prevent spamming on every tool call)
-let permissionCheckDone = false;
+const permissionChecked = new Set<string>();
 let dedupWarningShown = false;
 
 // ============================================================================
@@ -44,18 +60,108 @@ export async function getPort(): Promise<number> {
 }
 
 // ============================================================================
-// MCP Config Loading (from ~/.roam-tools.json)
+// MCP Config Loading (layered: environment → project file → user file)
 // ============================================================================
 
-const CONFIG_PATH = join(homedir(), ".roam-tools.json");
+const CONFIG_FILE_NAME = ".roam-tools.json";
+
+/**
+ * User config path. ROAM_TOOLS_CONFIG overrides the default ~/.roam-tools.json; graphs
+ * added by `connect` are always written here.
+ */
+export function getConfigPath(): string {
+  return process.env.ROAM_TOOLS_CONFIG?.trim() || join(homedir(), CONFIG_FILE_NAME);
+}
+
+export type ConfigSourceKind = "env" | "project" | "user";
+
+export interface ConfigSource {
+  kind: ConfigSourceKind;
+  location: string; // File path, or the environment variables used
+}
+
+// A graph from the merged config, with where it came from and which lower-precedence
+// definitions (sharing a nickname or alias, or with the same name and type) it replaced
+export interface ConfigGraphOrigin {
+  graph: GraphConfig;
+  source: ConfigSource;
+  shadowed: ConfigSource[];
+}
+
+export interface LayeredConfig {
+  // Sources in precedence order (highest first), with their own graphs (null if absent)
+  sources: Array<ConfigSource & { graphs: GraphConfig[] | null }>;
+  graphs: ConfigGraphOrigin[];
+}
+
+/**
+ * Nearest .roam-tools.json in the working directory or a parent directory, other than
+ * the user config itself.
+ */
+function findProjectConfigPath(startDir: string = process.cwd()): string | null {
+  const userPaths = new Set([resolve(getConfigPath()), join(homedir(), CONFIG_FILE_NAME)]);
+  let dir = resolve(startDir);
+  for (;;) {
+    const candidate = join(dir, CONFIG_FILE_NAME);
+    if (!userPaths.has(candidate) && existsSync(candidate)) return candidate;
+    const parent = dirname(dir);
+    if (parent === dir) return null;
+    dir = parent;
+  }
+}
+
+/**
+ * A single graph from ROAM_GRAPH / ROAM_TOKEN / ROAM_GRAPH_TYPE (e.g. in a container),
+ * nicknamed after the graph name.
+ */
+function getEnvGraph(): GraphConfig | null {
+  const name = process.env.ROAM_GRAPH?.trim();
+  const token = process.env.ROAM_TOKEN?.trim();
+  if (!name && !token) return null;
+  if (!name || !token) {
+    throw new RoamError(
+      `${name ? "ROAM_TOKEN" : "ROAM_GRAPH"} is not set. Set both ROAM_GRAPH and ROAM_TOKEN to configure a graph from the environment.`,
+      ErrorCodes.VALIDATION_ERROR,
+    );
+  }
+  const validated = GraphConfigSchema.safeParse({
+    name,
+    type: process.env.ROAM_GRAPH_TYPE?.trim() || "hosted",
+    token,
+    nickname: slugify(name),
+  });
+  if (!validated.success) {
+    const issues = validated.error.issues
+      .map((i) => `  - ${i.path.join(".")}: ${i.message}`)
+      .join("\n");
+    throw new RoamError(
+      `Invalid graph in ROAM_GRAPH / ROAM_TOKEN / ROAM_GRAPH_TYPE:\n${issues}`,
+      ErrorCodes.VALIDATION_ERROR,
+    );
+  }
+  return validated.data;
+}
+
+// Names a graph can be selected by besides its canonical name: nickname, then aliases (lowercased)
+function graphNicknames(graph: GraphConfig): string[] {
+  return [graph.nickname, ...(graph.aliases ?? [])].map((n) => n.toLowerCase());
+}
 
 /**
  * Write config file with restricted permissions (owner read/write only).
+ * Writes a temp file and renames it over the config, so a crash never leaves a partial file.
  */
 async function writeConfigFile(path: string, data: string): Promise<void> {
-  await writeFile(path, data, { mode: 0o600 });
-  // Also chmod in case the file already existed with wrong permissions
-  await chmod(path, 0o600);
+  const tempPath = `${path}.${process.pid}.tmp`;
+  try {
+    await writeFile(tempPath, data, { mode: 0o600 });
+    // Also chmod in case a stale temp file existed with wrong permissions
+    await chmod(tempPath, 0o600);
+    await rename(tempPath, path);
+  } catch (error) {
+    await unlink(tempPath).catch(() => {});
+    throw error;
+  }
 }
 
 /**
@@ -63,11 +169,11 @@ async function writeConfigFile(path: string, data: string): Promise<void> {
  * Must run on raw parsed JSON BEFORE Zod validation — a future version may change
  * the schema structure, and Zod would reject it with a confusing error.
  */
-function checkConfigVersion(parsed: Record<string, unknown>): void {
-  const version = typeof parsed.version === "number" ? parsed.version : 1;
+function checkConfigVersion(parsed: Record<string, unknown>, path: string): void {
+  const version = getConfigVersion(parsed);
   if (version > CONFIG_VERSION) {
     throw new RoamError(
-      `Your ~/.roam-tools.json (version ${version}) was written by a newer version of Roam tools. ` +
+      `Your ${path} (version ${version}) was written by a newer version of Roam tools. ` +
         `This client only supports config version ${CONFIG_VERSION}. ` +
         `Please update @roam-research/roam-mcp and @roam-research/roam-cli to the latest version.`,
       ErrorCodes.CONFIG_TOO_NEW,
@@ -76,22 +182,83 @@ function checkConfigVersion(parsed: Record<string, unknown>): void {
   }
 }
 
-export async function getMcpConfig(): Promise<RoamMcpConfig> {
+// Files written before versioning have no version field; they are version 1
+function getConfigVersion(parsed: Record<string, unknown>): number {
+  return typeof parsed.version === "number" ? parsed.version : 1;
+}
+
+// ============================================================================
+// Config Migrations
+// ============================================================================
+
+type RawConfig = Record<string, unknown>;
+
+/**
+ * Upgrade steps, keyed by the version they upgrade from. Each runs on raw parsed JSON
+ * before Zod validation, so it must cope with anything an older client could have written.
+ * Only bump CONFIG_VERSION for changes older clients can't read (new optional fields don't
+ * need one), and add the step from the previous version here when you do.
+ */
+const CONFIG_MIGRATIONS: Record<number, (config: RawConfig) => RawConfig> = {};
+
+/**
+ * Run every migration from the file's version up to CONFIG_VERSION.
+ * Returns the config unchanged if it is already current.
+ */
+function migrateConfig(parsed: RawConfig): { config: RawConfig; fromVersion: number } {
+  const fromVersion = getConfigVersion(parsed);
+  let config = parsed;
+  for (let version = fromVersion; version < CONFIG_VERSION; version++) {
+    const migrate = CONFIG_MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(`No config migration from version ${version} to ${version + 1}`);
+    }
+    config = { ...migrate(config), version: version + 1 };
+  }
+  return { config, fromVersion };
+}
+
+/**
+ * Before an upgraded config replaces an older file, keep the original as
+ * `<path>.v<version>.bak`. An existing backup is never overwritten, so it always holds the
+ * first pre-upgrade copy.
+ */
+async function backUpOldConfig(path: string, fromVersion: number): Promise<void> {
+  const backupPath = `${path}.v${fromVersion}.bak`;
+  try {
+    await copyFile(path, backupPath, fsConstants.COPYFILE_EXCL);
+    await chmod(backupPath, 0o600);
+    console.error(
+      `[roam-mcp] Upgrading ${path} from config version ${fromVersion} to ${CONFIG_VERSION} (backup: ${backupPath})`,
+    );
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+  }
+}
+
+/**
+ * Read and validate one config file, migrating it to CONFIG_VERSION in memory. Returns null
+ * if it doesn't exist. Reads never write the file back: an older client may share it, and
+ * would reject an upgraded file as CONFIG_TOO_NEW.
+ */
+async function readConfigFile(
+  path: string,
+): Promise<{ config: RoamMcpConfig; fromVersion: number } | null> {
   let content: string;
   try {
-    content = await readFile(CONFIG_PATH, "utf-8");
+    content = await readFile(path, "utf-8");
 
-    // Check file permissions (Unix only — skip on Windows)
-    if (!permissionCheckDone) {
-      permissionCheckDone = true;
+    // Check file permissions once per file (Unix only — skip on Windows)
+    if (!permissionChecked.has(path)) {
+      permissionChecked.add(path);
       try {
-        const fileStat = await stat(CONFIG_PATH);
+        const fileStat = await stat(path);
         const mode = fileStat.mode & 0o777;
         if (mode & 0o077) {
           console.error(
-            `[roam-mcp] WARNING: ${CONFIG_PATH} has overly permissive permissions (0${mode.toString(8)}). ` +
+            `[roam-mcp] WARNING: ${path} has overly permissive permissions (0${mode.toString(8)}). ` +
               `This file contains API tokens and should not be accessible by others. ` +
-              `Run: chmod 600 ${CONFIG_PATH}`,
+              `Run: chmod 600 ${path}`,
           );
         }
       } catch {
@@ -99,15 +266,7 @@ export async function getMcpConfig(): Promise<RoamMcpConfig> {
       }
     }
   } catch (error) {
-    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
-      throw new RoamError(
-        `No graphs configured. Use the setup_new_graph tool to connect a Roam graph, ` +
-          `or run the CLI setup command:\n\n` +
-          `  npx @roam-research/roam-cli connect\n\n` +
-          `After connecting, try your request again.`,
-        ErrorCodes.CONFIG_NOT_FOUND,
-      );
-    }
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
     throw error;
   }
 
@@ -116,41 +275,115 @@ export async function getMcpConfig(): Promise<RoamMcpConfig> {
     parsed = JSON.parse(content);
   } catch {
     throw new RoamError(
-      `Invalid JSON in ${CONFIG_PATH}. Please check the file format.`,
+      `Invalid JSON in ${path}. Please check the file format.`,
       ErrorCodes.VALIDATION_ERROR,
     );
   }
 
-  checkConfigVersion(parsed as Record<string, unknown>);
+  checkConfigVersion(parsed as Record<string, unknown>, path);
+  const { config, fromVersion } = migrateConfig(parsed as RawConfig);
 
-  const validated = RoamMcpConfigSchema.safeParse(parsed);
+  const validated = RoamMcpConfigSchema.safeParse(config);
   if (!validated.success) {
     const issues = validated.error.issues
       .map((i) => `  - ${i.path.join(".")}: ${i.message}`)
       .join("\n");
+    throw new RoamError(`Invalid config in ${path}:\n${issues}`, ErrorCodes.VALIDATION_ERROR);
+  }
+
+  // Validate nickname and alias uniqueness (case-insensitive)
+  const nicknames = new Set<string>();
+  for (const graph of validated.data.graphs) {
+    for (const lowerNickname of new Set(graphNicknames(graph))) {
+      if (nicknames.has(lowerNickname)) {
+        throw new RoamError(
+          `Duplicate nickname or alias "${lowerNickname}" in ${path}. Nicknames and aliases must be unique (case-insensitive).`,
+          ErrorCodes.VALIDATION_ERROR,
+        );
+      }
+      nicknames.add(lowerNickname);
+    }
+  }
+
+  const defaults = validated.data.graphs.filter((g) => g.default);
+  if (defaults.length > 1) {
     throw new RoamError(
-      `Invalid config in ${CONFIG_PATH}:\n${issues}`,
+      `More than one default graph in ${path} (${defaults.map((g) => g.nickname).join(", ")}). Set "default": true on one graph only.`,
       ErrorCodes.VALIDATION_ERROR,
     );
   }
 
-  // Validate nickname uniqueness (case-insensitive)
-  const nicknames = new Set<string>();
-  for (const graph of validated.data.graphs) {
-    const lowerNickname = graph.nickname.toLowerCase();
-    if (nicknames.has(lowerNickname)) {
-      throw new RoamError(
-        `Duplicate nickname "${graph.nickname}" in config. Nicknames must be unique (case-insensitive).`,
-        ErrorCodes.VALIDATION_ERROR,
+  return { config: validated.data, fromVersion };
+}
+
+/**
+ * Read every config source and merge their graphs. Precedence, highest first:
+ *   1. ROAM_GRAPH + ROAM_TOKEN (+ ROAM_GRAPH_TYPE) environment variables
+ *   2. .roam-tools.json in the working directory or nearest parent (project config)
+ *   3. ROAM_TOOLS_CONFIG, else ~/.roam-tools.json (user config)
+ * A graph replaces any lower-precedence graph sharing a nickname or alias with it, or with
+ * the same name and type.
+ */
+export async function loadLayeredConfig(): Promise<LayeredConfig> {
+  const envGraph = getEnvGraph();
+  const projectPath = findProjectConfigPath();
+  const userPath = getConfigPath();
+
+  const layers: Array<{ source: ConfigSource; graphs: GraphConfig[] | null }> = [
+    {
+      source: { kind: "env", location: "ROAM_GRAPH, ROAM_TOKEN, ROAM_GRAPH_TYPE" },
+      graphs: envGraph ? [envGraph] : null,
+    },
+  ];
+  if (projectPath) {
+    layers.push({
+      source: { kind: "project", location: projectPath },
+      graphs: (await readConfigFile(projectPath))?.config.graphs ?? null,
+    });
+  }
+  layers.push({
+    source: { kind: "user", location: userPath },
+    graphs: (await readConfigFile(userPath))?.config.graphs ?? null,
+  });
+
+  const graphs: ConfigGraphOrigin[] = [];
+  for (const { source, graphs: layerGraphs } of layers) {
+    for (const graph of layerGraphs ?? []) {
+      const nicknames = graphNicknames(graph);
+      const winner = graphs.find(
+        ({ graph: g }) =>
+          graphNicknames(g).some((n) => nicknames.includes(n)) ||
+          (g.name === graph.name && g.type === graph.type),
       );
+      if (winner) winner.shadowed.push(source);
+      else graphs.push({ graph, source, shadowed: [] });
     }
-    nicknames.add(lowerNickname);
+  }
+
+  return {
+    sources: layers.map(({ source, graphs }) => ({ ...source, graphs })),
+    graphs,
+  };
+}
+
+// Merged graphs with their origins, after same-name dedup
+async function loadMergedGraphs(): Promise<ConfigGraphOrigin[]> {
+  const layered = await loadLayeredConfig();
+  if (layered.graphs.length === 0) {
+    throw new RoamError(
+      `No graphs configured. Use the setup_new_graph tool to connect a Roam graph, ` +
+        `or run the CLI setup command:\n\n` +
+        `  npx @roam-research/roam-cli connect\n\n` +
+        `After connecting, try your request again.`,
+      ErrorCodes.CONFIG_NOT_FOUND,
+    );
   }
 
   // Handle same-name collisions: if both hosted and offline exist with same name, keep hosted
-  const graphsByName = new Map<string, GraphConfig>();
-  for (const graph of validated.data.graphs) {
-    const existing = graphsByName.get(graph.name);
+  const graphsByName = new Map<string, ConfigGraphOrigin>();
+  for (const origin of layered.graphs) {
+    const graph = origin.graph;
+    const existing = graphsByName.get(graph.name)?.graph;
     if (existing) {
       if (!dedupWarningShown) {
         dedupWarningShown = true;
@@ -172,16 +405,23 @@ export async function getMcpConfig(): Promise<RoamMcpConfig> {
       if (existing.type === "hosted") {
         continue;
       } else if (graph.type === "hosted") {
-        graphsByName.set(graph.name, graph);
+        graphsByName.set(graph.name, origin);
       }
       // else: both offline, skip the duplicate (continue already handled hosted case)
     } else {
-      graphsByName.set(graph.name, graph);
+      graphsByName.set(graph.name, origin);
     }
   }
 
-  // Rebuild graphs array with deduplication applied
-  return { version: validated.data.version ?? 1, graphs: Array.from(graphsByName.values()) };
+  return Array.from(graphsByName.values());
+}
+
+/**
+ * Merged config from every source (see loadLayeredConfig), with duplicate graph names resolved.
+ */
+export async function getMcpConfig(): Promise<RoamMcpConfig> {
+  const graphs = await loadMergedGraphs();
+  return { version: CONFIG_VERSION, graphs: graphs.map(({ graph }) => graph) };
 }
 
 // ============================================================================
@@ -189,58 +429,38 @@ export async function getMcpConfig(): Promise<RoamMcpConfig> {
 // ============================================================================
 
 /**
- * Read the raw config file for write operations (no dedup, but validates with Zod).
+ * Read the user config file for write operations (no merging or dedup, but validates with Zod).
  * Returns empty config if file doesn't exist (so saveGraphToConfig can create the initial file).
+ * fromVersion is the version on disk, which writeUserConfig needs to back up an older file.
  */
-async function readRawConfig(): Promise<RoamMcpConfig> {
-  let content: string;
-  try {
-    content = await readFile(CONFIG_PATH, "utf-8");
-  } catch (error) {
-    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
-      return { version: CONFIG_VERSION, graphs: [] };
-    }
-    throw error;
-  }
-
-  let parsed: unknown;
-  try {
-    parsed = JSON.parse(content);
-  } catch {
-    throw new RoamError(
-      `Invalid JSON in ${CONFIG_PATH}. Please check the file format.`,
-      ErrorCodes.VALIDATION_ERROR,
-    );
-  }
-
-  checkConfigVersion(parsed as Record<string, unknown>);
-
-  const validated = RoamMcpConfigSchema.safeParse(parsed);
-  if (!validated.success) {
-    const issues = validated.error.issues
-      .map((i) => `  - ${i.path.join(".")}: ${i.message}`)
-      .join("\n");
-    throw new RoamError(
-      `Invalid config in ${CONFIG_PATH}:\n${issues}`,
-      ErrorCodes.VALIDATION_ERROR,
-    );
-  }
+async function readRawConfig(): Promise<{ config: RoamMcpConfig; fromVersion: number }> {
+  const file = await readConfigFile(getConfigPath());
+  return file ?? { config: { version: CONFIG_VERSION, graphs: [] }, fromVersion: CONFIG_VERSION };
+}
 
-  return validated.data;
+/**
+ * Write the user config file as CONFIG_VERSION. Only explicit write commands call this, so an
+ * older file is upgraded (and backed up first) when the user changes their config, never as
+ * a side effect of reading it.
+ */
+async function writeUserConfig(graphs: GraphConfig[], fromVersion: number): Promise<void> {
+  const path = getConfigPath();
+  if (fromVersion < CONFIG_VERSION) await backUpOldConfig(path, fromVersion);
+  await writeConfigFile(path, JSON.stringify({ version: CONFIG_VERSION, graphs }, null, 2));
 }
 
 /**
- * Save a graph configuration to ~/.roam-tools.json
+ * Save a graph configuration to the user config file
  * If a graph with the same name+type exists, it will be updated.
  * Otherwise, the graph will be added.
  */
 export async function saveGraphToConfig(newGraph: GraphConfig): Promise<void> {
-  const config = await readRawConfig();
+  const { config, fromVersion } = await readRawConfig();
 
-  // Check for nickname collision (case-insensitive)
+  // Check for nickname collision with other graphs' nicknames and aliases (case-insensitive)
   const existingNickname = config.graphs.find(
     (g) =>
-      g.nickname.toLowerCase() === newGraph.nickname.toLowerCase() &&
+      graphNicknames(g).includes(newGraph.nickname.toLowerCase()) &&
       !(g.name === newGraph.name && g.type === newGraph.type),
   );
   if (existingNickname) {
@@ -255,44 +475,145 @@ export async function saveGraphToConfig(newGraph: GraphConfig): Promise<void> {
     (g) => g.name === newGraph.name && g.type === newGraph.type,
   );
 
+  // With ROAM_SECRET_STORE set, the token goes to the secret store and config gets a reference
+  const scheme = getDefaultSecretScheme();
+  const graph =
+    scheme && !isSecretRef(newGraph.token)
+      ? {
+          ...newGraph,
+          token: await storeSecret(scheme, graphSecretKey(newGraph.nickname), newGraph.token),
+        }
+      : newGraph;
+
   if (existingIndex >= 0) {
-    config.graphs[existingIndex] = newGraph; // Update existing
+    // Update existing, keeping per-graph settings the caller didn't set
+    const {
+      token: previous,
+      aliases,
+      default: isDefault,
+      description,
+      defaultPage,
+      tools,
+      cacheTtlSeconds,
+    } = config.graphs[existingIndex];
+    config.graphs[existingIndex] = {
+      aliases,
+      default: isDefault,
+      description,
+      defaultPage,
+      tools,
+      cacheTtlSeconds,
+      ...graph,
+    };
+    if (previous !== graph.token) await deleteSecret(previous);
   } else {
-    config.graphs.push(newGraph); // Add new
+    config.graphs.push(graph); // Add new
   }
 
-  const output = { version: CONFIG_VERSION, graphs: config.graphs };
-  await writeConfigFile(CONFIG_PATH, JSON.stringify(output, null, 2));
+  await writeUserConfig(config.graphs, fromVersion);
 }
 
 /**
- * Remove a graph from ~/.roam-tools.json by nickname
+ * Remove a graph from the user config file by nickname
  */
 export async function removeGraphFromConfig(nickname: string): Promise<boolean> {
-  const config = await readRawConfig();
+  const { config, fromVersion } = await readRawConfig();
   const lowerNickname = nickname.toLowerCase();
 
-  const initialLength = config.graphs.length;
+  const removed = config.graphs.filter((g) => g.nickname.toLowerCase() === lowerNickname);
   config.graphs = config.graphs.filter((g) => g.nickname.toLowerCase() !== lowerNickname);
 
-  if (config.graphs.length === initialLength) {
+  if (removed.length === 0) {
     return false; // Graph not found
   }
 
-  const output = { version: CONFIG_VERSION, graphs: config.graphs };
-  await writeConfigFile(CONFIG_PATH, JSON.stringify(output, null, 2));
+  await writeUserConfig(config.graphs, fromVersion);
+  // Best-effort: drop the stored token too, unless another graph still refers to it
+  for (const graph of removed) {
+    if (!config.graphs.some((g) => g.token === graph.token)) await deleteSecret(graph.token);
+  }
   return true;
 }
 
+/**
+ * Mark a graph in the user config (by nickname, alias or name) as the default, clearing the
+ * flag on every other graph there; null clears it everywhere. Returns the new default.
+ */
+export async function setDefaultGraph(nameOrNickname: string | null): Promise<GraphConfig | null> {
+  const { config, fromVersion } = await readRawConfig();
+  let target: GraphConfig | null = null;
+  if (nameOrNickname !== null) {
+    target = findInGraphs(config.graphs, (g) => g, nameOrNickname) ?? null;
+    if (!target) {
+      throw new RoamError(
+        `Graph "${nameOrNickname}" not found in ${getConfigPath()}. Only graphs in the user config can be made the default here; for other config sources, set "default": true in that file.`,
+        ErrorCodes.GRAPH_NOT_CONFIGURED,
+        { available_graphs: config.graphs.map((g) => g.nickname) },
+      );
+    }
+  }
+
+  for (const graph of config.graphs) {
+    if (graph === target) graph.default = true;
+    else delete graph.default;
+  }
+  await writeUserConfig(config.graphs, fromVersion);
+  return target;
+}
+
+/**
+ * Move plaintext tokens in the user config into a secret store, replacing each with a
+ * reference. Only the named graph is migrated when nickname is given.
+ */
+export async function migrateTokensToSecretStore(
+  scheme: string,
+  nickname?: string,
+): Promise<{ migrated: string[]; skipped: string[] }> {
+  const { config, fromVersion } = await readRawConfig();
+  const migrated: string[] = [];
+  const skipped: string[] = [];
+  const targets = config.graphs.filter(
+    (g) => nickname === undefined || g.nickname.toLowerCase() === nickname.toLowerCase(),
+  );
+  if (nickname !== undefined && targets.length === 0) {
+    throw new RoamError(
+      `Graph "${nickname}" not found in ${getConfigPath()}`,
+      ErrorCodes.GRAPH_NOT_CONFIGURED,
+    );
+  }
+
+  for (const graph of targets) {
+    if (isSecretRef(graph.token)) {
+      skipped.push(graph.nickname);
+      continue;
+    }
+    const ref = await storeSecret(scheme, graphSecretKey(graph.nickname), graph.token);
+    // Read it back before dropping the plaintext copy
+    if ((await getSecretStore(scheme).get(graphSecretKey(graph.nickname))) !== graph.token) {
+      throw new RoamError(
+        `The ${getSecretStore(scheme).description} did not return the token stored for "${graph.nickname}". Config was left unchanged for this graph.`,
+        ErrorCodes.SECRET_UNAVAILABLE,
+        { migrated },
+      );
+    }
+    graph.token = ref;
+    migrated.push(graph.nickname);
+    // Save after each graph so a later failure doesn't lose earlier progress
+    await writeUserConfig(config.graphs, fromVersion);
+  }
+  return { migrated, skipped };
+}
+
 /**
  * Update a graph's access level and/or token status in config.
- * No-ops if nothing changed (avoids unnecessary disk writes).
+ * No-ops if nothing changed (avoids unnecessary disk writes), or if the file is from an older
+ * config version: this runs as a side effect of tool calls, which must not upgrade the file.
  */
 export async function updateGraphTokenStatus(
   nickname: string,
   updates: { accessLevel?: AccessLevel; lastKnownTokenStatus?: "active" | "revoked" },
 ): Promise<void> {
-  const config = await readRawConfig();
+  const { config, fromVersion } = await readRawConfig();
   const graph = config.graphs.find((g) => g.nickname.toLowerCase() === nickname.toLowerCase());
   if (!graph) return;
 
@@ -308,10 +629,9 @@ export async function updateGraphTokenStatus(
     graph.lastKnownTokenStatus = updates.lastKnownTokenStatus;
     changed = true;
   }
-  if (!changed) return;
+  if (!changed || fromVersion < CONFIG_VERSION) return;
 
-  const output = { version: CONFIG_VERSION, graphs: config.graphs };
-  await writeConfigFile(CONFIG_PATH, JSON.stringify(output, null, 2));
+  await writeUserConfig(config.graphs, fromVersion);
 }
 
 /**
@@ -320,7 +640,7 @@ export async function updateGraphTokenStatus(
  */
 export async function getConfiguredGraphsSafe(): Promise<GraphConfig[]> {
   try {
-    const config = await readRawConfig();
+    const { config } = await readRawConfig();
     return config.graphs;
   } catch {
     return [];
@@ -331,33 +651,69 @@ export async function getConfiguredGraphsSafe(): Promise<GraphConfig[]> {
 // Graph Lookup Functions
 // ============================================================================
 
-/**
- * Find a graph config by nickname (case-insensitive) or name
- */
-export async function findGraphConfig(nameOrNickname: string): Promise<GraphConfig | undefined> {
-  const config = await getMcpConfig();
+function findInGraphs<T>(
+  items: T[],
+  getGraph: (item: T) => GraphConfig,
+  nameOrNickname: string,
+): T | undefined {
   const lower = nameOrNickname.toLowerCase();
 
-  // First try nickname (case-insensitive)
-  const byNickname = config.graphs.find((g) => g.nickname.toLowerCase() === lower);
+  // First try nickname, then aliases (case-insensitive)
+  const byNickname = items.find((item) => getGraph(item).nickname.toLowerCase() === lower);
   if (byNickname) return byNickname;
+  const byAlias = items.find((item) => graphNicknames(getGraph(item)).includes(lower));
+  if (byAlias) return byAlias;
 
   // Fall back to exact name match
-  return config.graphs.find((g) => g.name === nameOrNickname);
+  return items.find((item) => getGraph(item).name === nameOrNickname);
+}
+
+function findGraphOrigin(
+  graphs: ConfigGraphOrigin[],
+  nameOrNickname: string,
+): ConfigGraphOrigin | undefined {
+  return findInGraphs(graphs, ({ graph }) => graph, nameOrNickname);
+}
+
+// The graph from ROAM_GRAPH / ROAM_TOKEN if set (the environment names the graph to use),
+// else the one marked `default: true` in the highest-precedence source that marks one
+function findDefaultOrigin(graphs: ConfigGraphOrigin[]): ConfigGraphOrigin | undefined {
+  return (
+    graphs.find(({ source }) => source.kind === "env") ?? graphs.find(({ graph }) => graph.default)
+  );
+}
+
+/**
+ * Find a graph config by nickname or alias (case-insensitive), or name
+ */
+export async function findGraphConfig(nameOrNickname: string): Promise<GraphConfig | undefined> {
+  return findGraphOrigin(await loadMergedGraphs(), nameOrNickname)?.graph;
 }
 
 /**
  * Get list of all configured graphs (for list_graphs tool and error messages)
  */
 export async function getConfiguredGraphs(): Promise<
-  Array<{ nickname: string; name: string; accessLevel: string; lastKnownTokenStatus?: string }>
+  Array<{
+    nickname: string;
+    name: string;
+    accessLevel: string;
+    lastKnownTokenStatus?: string;
+    description?: string;
+    aliases?: string[];
+    default?: true;
+  }>
 > {
-  const config = await getMcpConfig();
-  return config.graphs.map((g) => ({
+  const graphs = await loadMergedGraphs();
+  const defaultGraph = findDefaultOrigin(graphs)?.graph;
+  return graphs.map(({ graph: g }) => ({
     nickname: g.nickname,
     name: g.name,
     accessLevel: g.accessLevel || "full",
     ...(g.lastKnownTokenStatus ? { lastKnownTokenStatus: g.lastKnownTokenStatus } : {}),
+    ...(g.description ? { description: g.description } : {}),
+    ...(g.aliases?.length ? { aliases: g.aliases } : {}),
+    ...(g === defaultGraph ? { default: true as const } : {}),
   }));
 }
 
@@ -365,17 +721,36 @@ export async function getConfiguredGraphs(): Promise<
 // Graph Resolution
 // ============================================================================
 
+// Token references (e.g. keychain:roam/my-graph) are resolved here, when the graph is used
+async function toResolvedGraph({ graph, source }: ConfigGraphOrigin): Promise<ResolvedGraph> {
+  return {
+    name: graph.name,
+    type: graph.type,
+    token: await resolveSecret(graph.token),
+    nickname: graph.nickname,
+    accessLevel: graph.accessLevel,
+    lastKnownTokenStatus: graph.lastKnownTokenStatus,
+    configSource: source.kind,
+    description: graph.description,
+    defaultPage: graph.defaultPage,
+    tools: graph.tools,
+    cacheTtlSeconds: graph.cacheTtlSeconds,
+  };
+}
+
 /**
  * Resolve which graph to use and return full config.
- * Stateless: explicit param → single configured graph → error
+ * Stateless: explicit param → single configured graph → default graph (environment graph,
+ * else `default: true`) → error.
+ * The default is a flag in config, re-read on every call; nothing is remembered between calls.
  */
 export async function resolveGraph(providedGraph?: string): Promise<ResolvedGraph> {
-  const config = await getMcpConfig();
+  const graphs = await loadMergedGraphs();
 
-  // 1. Explicit graph parameter (by nickname or name)
+  // 1. Explicit graph parameter (by nickname, alias or name)
   if (providedGraph) {
-    const graphConfig = await findGraphConfig(providedGraph);
-    if (!graphConfig) {
+    const origin = findGraphOrigin(graphs, providedGraph);
+    if (!origin) {
       throw new RoamError(
         `Graph "${providedGraph}" not found in config. Available graph nicknames are listed below.`,
         ErrorCodes.GRAPH_NOT_CONFIGURED,
@@ -386,32 +761,23 @@ export async function resolveGraph(providedGraph?: string): Promise<ResolvedGrap
         },
       );
     }
-    return {
-      name: graphConfig.name,
-      type: graphConfig.type,
-      token: graphConfig.token,
-      nickname: graphConfig.nickname,
-      accessLevel: graphConfig.accessLevel,
-      lastKnownTokenStatus: graphConfig.lastKnownTokenStatus,
-    };
+    return await toResolvedGraph(origin);
   }
 
   // 2. Auto-select if exactly one graph configured
-  if (config.graphs.length === 1) {
-    const graphConfig = config.graphs[0];
-    return {
-      name: graphConfig.name,
-      type: graphConfig.type,
-      token: graphConfig.token,
-      nickname: graphConfig.nickname,
-      accessLevel: graphConfig.accessLevel,
-      lastKnownTokenStatus: graphConfig.lastKnownTokenStatus,
-    };
+  if (graphs.length === 1) {
+    return await toResolvedGraph(graphs[0]);
   }
 
-  // 3. Multiple graphs - require explicit selection
+  // 3. Default: the environment graph, else the graph marked `default: true` (e.g. by `roam use`)
+  const defaultOrigin = findDefaultOrigin(graphs);
+  if (defaultOrigin) {
+    return await toResolvedGraph(defaultOrigin);
+  }
+
+  // 4. Multiple graphs, no default - require explicit selection
   throw new RoamError(
-    "Multiple graphs configured. Pass a graph nickname as the graph parameter to specify which graph to use.",
+    "Multiple graphs configured and none is the default. Pass a graph nickname as the graph parameter to specify which graph to use.",
     ErrorCodes.GRAPH_NOT_SELECTED,
     {
       available_graphs: await getConfiguredGraphs(),
@@ -421,6 +787,30 @@ export async function resolveGraph(providedGraph?: string): Promise<ResolvedGrap
   );
 }
 
+/**
+ * Create a client for a resolved graph. Writes are audited under the graph's nickname, and
+ * the graph's cacheTtlSeconds (if set) overrides ROAM_CACHE_TTL.
+ */
+export async function createClientForGraph(
+  resolvedGraph: ResolvedGraph,
+  audit: AuditContext = {},
+  options: Pick<RoamClientConfig, "host" | "transport" | "timeoutMs" | "signal"> = {},
+): Promise<RoamClient> {
+  const port = await getPort();
+  return new RoamClient({
+    graphName: resolvedGraph.name,
+    graphType: resolvedGraph.type,
+    token: resolvedGraph.token,
+    port,
+    host: getApiHost(),
+    audit: { nickname: resolvedGraph.nickname, ...audit },
+    ...(resolvedGraph.cacheTtlSeconds !== undefined && {
+      cacheTtlMs: resolvedGraph.cacheTtlSeconds * 1000,
+    }),
+    ...options,
+  });
+}
+
 // ============================================================================
 // Open Graphs (for reference - not used for resolution in v2.0.0)
 // ============================================================================
@@ -443,7 +833,7 @@ interface GraphsResponse {
  */
 export async function getOpenGraphs(): Promise<Array<{ name: string; type: string }>> {
   const port = await getPort();
-  const url = `http://127.0.0.1:${port}/api/graphs/open`;
+  const url = `${localApiUrl(port)}/api/graphs/open`;
 
   const response = await fetch(url, {
     method: "GET",
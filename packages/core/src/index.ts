@@ -7,6 +7,7 @@ export type {
   ImageContent,
   GraphType,
   AccessLevel,
+  ToolScope,
   GraphConfig,
   RoamMcpConfig,
   ResolvedGraph,
@@ -14,6 +15,8 @@ export type {
   RoamApiError,
   RoamResponse,
   RoamClientConfig,
+  AuditCaller,
+  AuditContext,
   Block,
   Page,
   BlockLocation,
@@ -46,6 +49,7 @@ export {
   RoamMcpConfigSchema,
   ErrorCodes,
   RoamError,
+  ACCESS_LEVEL_SCOPES,
   CONFIG_VERSION,
   EXPECTED_API_VERSION,
   textResult,
@@ -56,11 +60,21 @@ export {
 
 // Client
 export { RoamClient } from "./client.js";
+export type { CallOptions } from "./client.js";
+export type { CacheStats } from "./cache.js";
+export { HttpTransport } from "./transport.js";
+export type {
+  Transport,
+  TransportRequest,
+  TransportResponse,
+  HttpTransportOptions,
+} from "./transport.js";
 
 // Graph resolution and config management
 export {
   getPort,
   resolveGraph,
+  createClientForGraph,
   saveGraphToConfig,
   removeGraphFromConfig,
   updateGraphTokenStatus,
@@ -68,13 +82,93 @@ export {
   getConfiguredGraphs,
   findGraphConfig,
   getMcpConfig,
+  getConfigPath,
+  loadLayeredConfig,
+  migrateTokensToSecretStore,
+  setDefaultGraph,
   getOpenGraphs,
 } from "./graph-resolver.js";
+export type {
+  ConfigSource,
+  ConfigSourceKind,
+  ConfigGraphOrigin,
+  LayeredConfig,
+} from "./graph-resolver.js";
+
+// Secret stores for graph tokens
+export {
+  EncryptedFileSecretStore,
+  registerSecretStore,
+  getSecretStore,
+  resolveSecret,
+  storeSecret,
+  deleteSecret,
+  isSecretRef,
+  getDefaultSecretScheme,
+  graphSecretKey,
+} from "./secrets.js";
+export type { SecretStore, EncryptedFileStoreOptions } from "./secrets.js";
 
 // Shared Roam API functions
 export { fetchAvailableGraphs, requestToken, sleep, openRoamApp, slugify } from "./roam-api.js";
 export type { AvailableGraph, GraphsResponse, TokenExchangeResponse } from "./roam-api.js";
 
 // Tool definitions and routing
-export { tools, findTool, routeToolCall } from "./tools.js";
-export type { ToolDefinition, ClientToolDefinition, StandaloneToolDefinition } from "./tools.js";
+export { tools, findTool, isToolPermitted, routeToolCall } from "./tools.js";
+export type {
+  ToolDefinition,
+  ClientToolDefinition,
+  StandaloneToolDefinition,
+  RouteToolCallOptions,
+} from "./tools.js";
+
+// Audit log
+export { WRITE_ACTIONS, CACHEABLE_ACTIONS, isWriteAction } from "./actions.js";
+export {
+  getAuditLogPath,
+  appendAuditEntry,
+  readAuditEntries,
+  extractResultUids,
+  parseTimeFilter,
+} from "./audit.js";
+export type { AuditEntry, AuditFilter } from "./audit.js";
+
+// Undo journal
+export {
+  JOURNALED_ACTIONS,
+  getJournalPath,
+  capturePreImage,
+  appendJournalEntry,
+  markUndone,
+  readUndoableEntries,
+} from "./journal.js";
+export type {
+  JournalEntry,
+  JournalStep,
+  BlockSnapshot,
+  PageSnapshot,
+  PendingJournalEntry,
+} from "./journal.js";
+export { stripRoamTags, extractRoamUids } from "./markdown.js";
+
+// Daily note dates
+export {
+  resolveDate,
+  dailyNoteTitle,
+  dailyNoteUid,
+  toIsoDate,
+  parseDailyNoteTitle,
+} from "./dates.js";
+
+// Markdown export
+export { exportToMarkdown, pageFileName, rewritePageLinks } from "./markdown-export.js";
+export type { MarkdownExportOptions, MarkdownExportSummary } from "./markdown-export.js";
+
+// Markdown import
+export { importFromMarkdown, parseFrontMatter } from "./markdown-import.js";
+export type {
+  MarkdownImportOptions,
+  MarkdownImportSummary,
+  ImportedFile,
+  ImportAction,
+} from "./markdown-import.js";
@@ -0,0 +1,371 @@
+// src/core/journal.ts
+// Undo journal: before update/move/delete writes, snapshot the affected block or page and
+// store the Local API calls that reverse the change. Undo replays those calls.
+
+import { appendFile } from "fs/promises";
+import { randomUUID } from "crypto";
+import { homedir } from "os";
+import { join } from "path";
+import type { GraphType, RoamResponse } from "./types.js";
+import { readJsonlFile, rotateLogFile } from "./audit.js";
+import { stripRoamTags } from "./markdown.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+// One Local API call
+export interface JournalStep {
+  action: string;
+  args: unknown[];
+}
+
+export interface BlockSnapshot {
+  kind: "block";
+  uid: string;
+  string: string;
+  parentUid: string;
+  order: number;
+  heading?: number;
+  open?: boolean;
+  textAlign?: string;
+  childrenViewType?: string;
+  markdown: string; // Full subtree, as returned by data.ai.getBlock
+}
+
+export interface PageSnapshot {
+  kind: "page";
+  uid: string;
+  title: string;
+  childrenViewType?: string;
+  markdown: string; // Page children, as returned by data.ai.getPage
+}
+
+export interface JournalEntry {
+  type: "change";
+  id: string;
+  timestamp: string; // ISO 8601
+  graph: string; // Nickname (or name when no nickname is known)
+  graphName: string;
+  graphType: GraphType;
+  tool?: string;
+  action: string;
+  args: unknown[];
+  before: BlockSnapshot | PageSnapshot;
+  inverse: JournalStep[]; // Empty when the change can't be reversed (see warning)
+  warning?: string;
+}
+
+// Appended when an entry has been undone. uidMap maps uids of blocks the undo recreated
+// (original uid -> new uid), so older inverse steps can still find them.
+interface UndoMarker {
+  type: "undo";
+  id: string;
+  timestamp: string;
+  uidMap?: Record<string, string>;
+}
+
+// A captured pre-image, waiting for the write to succeed before it is journaled
+export type PendingJournalEntry = Pick<JournalEntry, "before" | "inverse" | "warning">;
+
+// Sends a Local API call without journaling it (used for snapshot queries)
+export type ApiCaller = <T>(action: string, args: unknown[]) => Promise<RoamResponse<T>>;
+
+// ============================================================================
+// Location
+// ============================================================================
+
+const DEFAULT_JOURNAL_PATH = join(homedir(), ".roam-tools-journal.jsonl");
+
+// Older changes stop being undoable once they rotate out of the active file and its backup
+const MAX_JOURNAL_BYTES = 5 * 1024 * 1024;
+const MAX_ROTATED_FILES = 1;
+
+// Actions whose pre-image is captured
+export const JOURNALED_ACTIONS: ReadonlySet<string> = new Set([
+  "data.block.update",
+  "data.block.move",
+  "data.block.delete",
+  "data.page.update",
+  "data.page.delete",
+]);
+
+/**
+ * Journal path. ROAM_UNDO_JOURNAL overrides the location; set it to "off" to disable journaling.
+ */
+export function getJournalPath(): string | null {
+  const override = process.env.ROAM_UNDO_JOURNAL?.trim();
+  if (override && ["off", "false", "0"].includes(override.toLowerCase())) return null;
+  return override || DEFAULT_JOURNAL_PATH;
+}
+
+// ============================================================================
+// Snapshots
+// ============================================================================
+
+const BLOCK_SNAPSHOT_QUERY = `[:find (pull ?b [:block/string :block/order :block/heading :block/open :block/text-align :children/view-type]) ?parent
+ :in $ ?uid
+ :where [?b :block/uid ?uid] [?p :block/children ?b] [?p :block/uid ?parent]]`;
+
+const PAGE_SNAPSHOT_QUERY = `[:find (pull ?p [:node/title :children/view-type])
+ :in $ ?uid
+ :where [?p :block/uid ?uid] [?p :node/title ?title]]`;
+
+const PAGE_BY_TITLE_QUERY = `[:find ?uid
+ :in $ ?title
+ :where [?p :node/title ?title] [?p :block/uid ?uid]]`;
+
+type Pulled = Record<string, unknown>;
+
+// Keyword values (e.g. :children/view-type) come back as ":bullet" or "bullet"
+function keywordValue(value: unknown): string | undefined {
+  return typeof value === "string" ? value.replace(/^:/, "") : undefined;
+}
+
+async function snapshotBlock(call: ApiCaller, uid: string): Promise<BlockSnapshot | null> {
+  const rows = (await call<Array<[Pulled, string]>>("q", [BLOCK_SNAPSHOT_QUERY, uid])).result;
+  if (!rows || rows.length === 0) return null;
+  const [pulled, parentUid] = rows[0];
+  const block = (await call<{ markdown: string }>("data.ai.getBlock", [{ uid }])).result;
+  return {
+    kind: "block",
+    uid,
+    string: (pulled[":block/string"] as string | undefined) ?? "",
+    parentUid,
+    order: (pulled[":block/order"] as number | undefined) ?? 0,
+    heading: pulled[":block/heading"] as number | undefined,
+    open: pulled[":block/open"] as boolean | undefined,
+    textAlign: pulled[":block/text-align"] as string | undefined,
+    childrenViewType: keywordValue(pulled[":children/view-type"]),
+    markdown: block?.markdown ?? "",
+  };
+}
+
+async function snapshotPage(call: ApiCaller, uid: string): Promise<PageSnapshot | null> {
+  const rows = (await call<Array<[Pulled]>>("q", [PAGE_SNAPSHOT_QUERY, uid])).result;
+  if (!rows || rows.length === 0) return null;
+  const [pulled] = rows[0];
+  const page = (await call<{ markdown: string }>("data.ai.getPage", [{ uid }])).result;
+  return {
+    kind: "page",
+    uid,
+    title: pulled[":node/title"] as string,
+    childrenViewType: keywordValue(pulled[":children/view-type"]),
+    markdown: page?.markdown ?? "",
+  };
+}
+
+const NEW_UIDS_WARNING =
+  "Restored blocks get new uids, so block references ((uid)) to the originals stay broken.";
+
+// Reverse data.block.update: restore the previous value of every field that was set
+function blockUpdateInverse(before: BlockSnapshot, block: Record<string, unknown>): JournalStep {
+  const restore: Record<string, unknown> = { uid: before.uid };
+  if ("string" in block) restore.string = before.string;
+  if ("open" in block) restore.open = before.open ?? true;
+  if ("heading" in block) restore.heading = before.heading ?? 0;
+  if ("children-view-type" in block) {
+    restore["children-view-type"] = before.childrenViewType ?? "bullet";
+  }
+  if ("text-align" in block) restore["text-align"] = before.textAlign ?? "left";
+  return { action: "data.block.update", args: [{ block: restore }] };
+}
+
+function recreateBlockStep(before: BlockSnapshot): JournalStep {
+  return {
+    action: "data.block.fromMarkdown",
+    args: [
+      {
+        location: { "parent-uid": before.parentUid, order: before.order },
+        "markdown-string": stripRoamTags(before.markdown),
+      },
+    ],
+  };
+}
+
+function recreatePageStep(before: PageSnapshot): JournalStep {
+  const page: Record<string, unknown> = { title: before.title, uid: before.uid };
+  if (before.childrenViewType) page["children-view-type"] = before.childrenViewType;
+  return {
+    action: "data.page.fromMarkdown",
+    args: [{ page, "markdown-string": stripRoamTags(before.markdown) }],
+  };
+}
+
+/**
+ * Snapshot the block or page a journaled write is about to change and work out its inverse.
+ * Returns null for actions that aren't journaled or targets that don't exist.
+ */
+export async function capturePreImage(
+  call: ApiCaller,
+  action: string,
+  args: unknown[],
+): Promise<PendingJournalEntry | null> {
+  if (!JOURNALED_ACTIONS.has(action)) return null;
+  const params = (args[0] ?? {}) as Record<string, Record<string, unknown> | undefined>;
+
+  switch (action) {
+    case "data.block.update": {
+      const block = params.block ?? {};
+      const before = await snapshotBlock(call, block.uid as string);
+      if (!before) return null;
+      return { before, inverse: [blockUpdateInverse(before, block)] };
+    }
+    case "data.block.move": {
+      const before = await snapshotBlock(call, params.block?.uid as string);
+      if (!before) return null;
+      return {
+        before,
+        inverse: [
+          {
+            action: "data.block.move",
+            args: [
+              {
+                location: { "parent-uid": before.parentUid, order: before.order },
+                block: { uid: before.uid },
+              },
+            ],
+          },
+        ],
+      };
+    }
+    case "data.block.delete": {
+      const before = await snapshotBlock(call, params.block?.uid as string);
+      if (!before) return null;
+      return { before, inverse: [recreateBlockStep(before)], warning: NEW_UIDS_WARNING };
+    }
+    case "data.page.update": {
+      const page = params.page ?? {};
+      const before = await snapshotPage(call, page.uid as string);
+      if (!before) return null;
+
+      // Renaming onto an existing title merges the two pages, which can't be split again
+      if (typeof page.title === "string" && page.title !== before.title) {
+        const existing = (await call<unknown[]>("q", [PAGE_BY_TITLE_QUERY, page.title])).result;
+        if (existing && existing.length > 0) {
+          return {
+            before,
+            inverse: [],
+            warning: `Merged into existing page "${page.title}"; merges can't be undone.`,
+          };
+        }
+      }
+
+      const restore: Record<string, unknown> = { uid: before.uid };
+      if ("title" in page) restore.title = before.title;
+      if ("children-view-type" in page) {
+        restore["children-view-type"] = before.childrenViewType ?? "bullet";
+      }
+      return { before, inverse: [{ action: "data.page.update", args: [{ page: restore }] }] };
+    }
+    case "data.page.delete": {
+      const before = await snapshotPage(call, params.page?.uid as string);
+      if (!before) return null;
+      return { before, inverse: [recreatePageStep(before)], warning: NEW_UIDS_WARNING };
+    }
+    default:
+      return null;
+  }
+}
+
+// ============================================================================
+// Reading and writing
+// ============================================================================
+
+async function appendJournalLine(record: JournalEntry | UndoMarker): Promise<void> {
+  const path = getJournalPath();
+  if (!path) return;
+  try {
+    const line = JSON.stringify(record) + "\n";
+    await rotateLogFile(path, Buffer.byteLength(line), MAX_JOURNAL_BYTES, MAX_ROTATED_FILES);
+    await appendFile(path, line, { mode: 0o600 });
+  } catch (error) {
+    console.error(
+      `[roam-tools] WARNING: Could not write undo journal ${path}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+/**
+ * Journal a change after its write succeeded. Best-effort, like the audit log.
+ */
+export async function appendJournalEntry(
+  entry: Omit<JournalEntry, "type" | "id" | "timestamp">,
+): Promise<void> {
+  await appendJournalLine({
+    type: "change",
+    id: randomUUID(),
+    timestamp: new Date().toISOString(),
+    ...entry,
+  });
+}
+
+export async function markUndone(id: string, uidMap?: Record<string, string>): Promise<void> {
+  await appendJournalLine({
+    type: "undo",
+    id,
+    timestamp: new Date().toISOString(),
+    ...(uidMap && Object.keys(uidMap).length > 0 && { uidMap }),
+  });
+}
+
+export interface UndoableChanges {
+  entries: JournalEntry[]; // Not yet undone, oldest first
+  uidMap: Map<string, string>; // Original uid -> uid of the block recreated by an earlier undo
+}
+
+/**
+ * Journal entries for a graph that haven't been undone yet, plus uids remapped by earlier undos.
+ */
+export async function readUndoableEntries(
+  graphName: string,
+  graphType: GraphType,
+): Promise<UndoableChanges> {
+  const path = getJournalPath();
+  if (!path) return { entries: [], uidMap: new Map() };
+
+  const records = [
+    ...(await readJsonlFile<JournalEntry | UndoMarker>(`${path}.1`)),
+    ...(await readJsonlFile<JournalEntry | UndoMarker>(path)),
+  ];
+  const changes = records.filter(
+    (r): r is JournalEntry =>
+      r.type === "change" && r.graphName === graphName && r.graphType === graphType,
+  );
+  const ids = new Set(changes.map((entry) => entry.id));
+  const undone = new Set<string>();
+  const uidMap = new Map<string, string>();
+  for (const record of records) {
+    if (record.type !== "undo" || !ids.has(record.id)) continue;
+    undone.add(record.id);
+    for (const [from, to] of Object.entries(record.uidMap ?? {})) uidMap.set(from, to);
+  }
+  return { entries: changes.filter((entry) => !undone.has(entry.id)), uidMap };
+}
+
+/**
+ * Rewrite uid / parent-uid values in a step through the uid map (following chains of
+ * recreations), so it targets blocks that were recreated by earlier undos.
+ */
+export function remapStep(step: JournalStep, uidMap: Map<string, string>): JournalStep {
+  if (uidMap.size === 0) return step;
+  const resolve = (uid: string): string => {
+    const seen = new Set<string>();
+    while (uidMap.has(uid) && !seen.has(uid)) {
+      seen.add(uid);
+      uid = uidMap.get(uid)!;
+    }
+    return uid;
+  };
+  const rewrite = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(rewrite);
+    if (!value || typeof value !== "object") return value;
+    return Object.fromEntries(
+      Object.entries(value).map(([key, v]) => [
+        key,
+        (key === "uid" || key === "parent-uid") && typeof v === "string" ? resolve(v) : rewrite(v),
+      ]),
+    );
+  };
+  return { action: step.action, args: rewrite(step.args) as unknown[] };
+}
@@ -0,0 +1,254 @@
+// src/core/markdown-export.ts
+// Export pages to a folder of Markdown files (one per page, with front matter),
+// downloading Firebase-hosted attachments into assets/.
+
+import { mkdir, writeFile } from "fs/promises";
+import { extname, join } from "path";
+import type { RoamClient } from "./client.js";
+import type { GetPageResponse } from "./types.js";
+import { RoamError, ErrorCodes } from "./types.js";
+import { stripRoamTags } from "./markdown.js";
+
+export interface MarkdownExportOptions {
+  outDir: string;
+  pages?: string[]; // Page titles to export
+  all?: boolean; // Export every page in the graph
+  onProgress?: (message: string) => void;
+}
+
+export interface MarkdownExportSummary {
+  outDir: string;
+  pages: number;
+  assets: number;
+  missingPages: string[];
+  failedAssets: Array<{ url: string; error: string }>;
+}
+
+interface PageInfo {
+  title: string;
+  uid: string;
+  createTime: number;
+  editTime: number;
+}
+
+const ASSETS_DIR = "assets";
+
+const PAGE_FIELDS = `[?p :node/title ?title]
+        [?p :block/uid ?uid]
+        [(get-else $ ?p :create/time 0) ?created]
+        [(get-else $ ?p :edit/time 0) ?edited]`;
+
+const ALL_PAGES_QUERY = `[:find ?title ?uid ?created ?edited
+ :where ${PAGE_FIELDS}]`;
+
+const PAGE_BY_TITLE_QUERY = `[:find ?title ?uid ?created ?edited
+ :in $ ?title
+ :where ${PAGE_FIELDS}]`;
+
+// Firebase storage URLs as they appear in block strings (![](url), [name](url), {{pdf: url}})
+const FIREBASE_URL = /https:\/\/firebasestorage\.googleapis\.com\/[^\s)"'\]}]+/g;
+
+// [[Page]] and #[[Page]] links (innermost brackets only, so nested links keep their outer part)
+const PAGE_LINK = /#?\[\[([^[\]]+)\]\]/g;
+// Roam alias link: [text]([[Page]])
+const ALIAS_LINK = /\[([^\]]*)\]\(\[\[([^[\]]+)\]\]\)/g;
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  "image/jpeg": ".jpg",
+  "image/png": ".png",
+  "image/gif": ".gif",
+  "image/webp": ".webp",
+  "image/svg+xml": ".svg",
+  "application/pdf": ".pdf",
+};
+
+// ============================================================================
+// File naming
+// ============================================================================
+
+/**
+ * File name for a page title: characters that are invalid in file names (including the
+ * "/" of namespaced titles) become "-". Returns a name without extension.
+ */
+export function pageFileName(title: string): string {
+  const name = title
+    .replace(/[/\\:*?"<>|\r\n\t]/g, "-")
+    .replace(/^\.+/, "-")
+    .trim();
+  return name.slice(0, 200) || "untitled";
+}
+
+// Give every page a unique file name, appending " (2)", " (3)"... on case-insensitive clashes
+function uniqueFileNames(pages: PageInfo[]): Map<string, string> {
+  const used = new Set<string>();
+  const names = new Map<string, string>(); // title -> file name
+  for (const page of pages) {
+    const base = pageFileName(page.title);
+    const ext = ".md";
+    let name = `${base}${ext}`;
+    for (let n = 2; used.has(name.toLowerCase()); n += 1) name = `${base} (${n})${ext}`;
+    used.add(name.toLowerCase());
+    names.set(page.title, name);
+  }
+  return names;
+}
+
+// Markdown link target for a relative path (spaces and parentheses must be escaped)
+function linkTarget(path: string): string {
+  return encodeURI(path).replace(/\(/g, "%28").replace(/\)/g, "%29");
+}
+
+function assetBaseName(url: string): string {
+  try {
+    // Firebase object paths are URL-encoded: .../o/imgs%2Fapp%2Fgraph%2Fname.png?alt=media
+    const objectPath = decodeURIComponent(new URL(url).pathname.split("/").pop() ?? "");
+    const name = objectPath.split("/").pop() ?? "";
+    return name.replace(/[\\:*?"<>|\r\n\t]/g, "-") || "file";
+  } catch {
+    return "file";
+  }
+}
+
+// ============================================================================
+// Conversion
+// ============================================================================
+
+function frontMatter(page: PageInfo): string {
+  const lines = ["---", `title: ${JSON.stringify(page.title)}`, `uid: ${JSON.stringify(page.uid)}`];
+  if (page.createTime) lines.push(`created: ${new Date(page.createTime).toISOString()}`);
+  if (page.editTime) lines.push(`edited: ${new Date(page.editTime).toISOString()}`);
+  lines.push("---", "");
+  return lines.join("\n");
+}
+
+/**
+ * Rewrite [[links]] and [text]([[links]]) to pages that are part of the export into relative
+ * Markdown links. Links to pages outside the export are left as they are.
+ */
+export function rewritePageLinks(markdown: string, fileNames: Map<string, string>): string {
+  return markdown
+    .replace(ALIAS_LINK, (match, text: string, title: string) => {
+      const file = fileNames.get(title);
+      return file ? `[${text}](${linkTarget(file)})` : match;
+    })
+    .replace(PAGE_LINK, (match, title: string) => {
+      const file = fileNames.get(title);
+      return file ? `[${title}](${linkTarget(file)})` : match;
+    });
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+function toPageInfo(rows: Array<[string, string, number, number]>): PageInfo[] {
+  return rows.map(([title, uid, createTime, editTime]) => ({ title, uid, createTime, editTime }));
+}
+
+async function findPages(
+  client: RoamClient,
+  options: MarkdownExportOptions,
+): Promise<{ pages: PageInfo[]; missing: string[] }> {
+  if (options.all) {
+    const response = await client.call<Array<[string, string, number, number]>>("q", [
+      ALL_PAGES_QUERY,
+    ]);
+    const pages = toPageInfo(response.result ?? []);
+    pages.sort((a, b) => a.title.localeCompare(b.title));
+    return { pages, missing: [] };
+  }
+
+  const pages: PageInfo[] = [];
+  const missing: string[] = [];
+  for (const title of options.pages ?? []) {
+    const response = await client.call<Array<[string, string, number, number]>>("q", [
+      PAGE_BY_TITLE_QUERY,
+      title,
+    ]);
+    const [page] = toPageInfo(response.result ?? []);
+    if (page) pages.push(page);
+    else missing.push(title);
+  }
+  return { pages, missing };
+}
+
+/**
+ * Export pages to outDir as Markdown. Firebase attachments are downloaded through file.get
+ * into outDir/assets and links to them are rewritten to the local copies.
+ */
+export async function exportToMarkdown(
+  client: RoamClient,
+  options: MarkdownExportOptions,
+): Promise<MarkdownExportSummary> {
+  if (!options.all && (!options.pages || options.pages.length === 0)) {
+    throw new RoamError("Specify pages to export, or all", ErrorCodes.VALIDATION_ERROR);
+  }
+  const progress = options.onProgress ?? (() => {});
+
+  const { pages, missing } = await findPages(client, options);
+  const fileNames = uniqueFileNames(pages);
+
+  await mkdir(options.outDir, { recursive: true });
+
+  const assetPaths = new Map<string, string | null>(); // url -> relative path, null if failed
+  const usedAssetNames = new Set<string>();
+  const failedAssets: MarkdownExportSummary["failedAssets"] = [];
+
+  const downloadAsset = async (url: string): Promise<string | null> => {
+    if (assetPaths.has(url)) return assetPaths.get(url) ?? null;
+    try {
+      const response = await client.call<{ base64: string; mimetype?: string }>("file.get", [
+        { url, format: "base64" },
+      ]);
+      if (!response.result) throw new Error("No file data returned");
+      const { base64, mimetype } = response.result;
+
+      let base = assetBaseName(url);
+      if (!extname(base) && mimetype && MIME_EXTENSIONS[mimetype]) {
+        base += MIME_EXTENSIONS[mimetype];
+      }
+      const ext = extname(base);
+      const stem = base.slice(0, base.length - ext.length);
+      let name = base;
+      for (let n = 2; usedAssetNames.has(name.toLowerCase()); n += 1) name = `${stem}-${n}${ext}`;
+      usedAssetNames.add(name.toLowerCase());
+
+      await mkdir(join(options.outDir, ASSETS_DIR), { recursive: true });
+      await writeFile(join(options.outDir, ASSETS_DIR, name), Buffer.from(base64, "base64"));
+      const relative = `${ASSETS_DIR}/${name}`;
+      assetPaths.set(url, relative);
+      return relative;
+    } catch (error) {
+      failedAssets.push({ url, error: error instanceof Error ? error.message : String(error) });
+      assetPaths.set(url, null); // Don't retry; keep the remote link
+      return null;
+    }
+  };
+
+  for (const [i, page] of pages.entries()) {
+    progress(`[${i + 1}/${pages.length}] ${page.title}`);
+    const response = await client.call<GetPageResponse | undefined>("data.ai.getPage", [
+      { uid: page.uid },
+    ]);
+    let markdown = stripRoamTags(response.result?.markdown ?? "");
+    markdown = rewritePageLinks(markdown, fileNames);
+
+    for (const url of new Set(markdown.match(FIREBASE_URL) ?? [])) {
+      const local = await downloadAsset(url);
+      if (local) markdown = markdown.split(url).join(linkTarget(local));
+    }
+
+    await writeFile(
+      join(options.outDir, fileNames.get(page.title)!),
+      frontMatter(page) + markdown + "\n",
+    );
+  }
+
+  return {
+    outDir: options.outDir,
+    pages: pages.length,
+    assets: [...assetPaths.values()].filter((path) => path !== null).length,
+    missingPages: missing,
+    failedAssets,
+  };
+}
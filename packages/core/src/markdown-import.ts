@@ -0,0 +1,445 @@
+// src/core/markdown-import.ts
+// Import a folder of Markdown files (e.g. an Obsidian vault) into a graph, one page per file.
+// Wiki-links and links between files become Roam page links, front-matter properties become
+// attr:: blocks, and local images are uploaded to Roam.
+
+import { readdir, readFile } from "fs/promises";
+import { basename, dirname, extname, join, relative, resolve, sep } from "path";
+import type { RoamClient } from "./client.js";
+import type { TextContent } from "./types.js";
+import { RoamError, ErrorCodes } from "./types.js";
+import { createPage } from "./operations/pages.js";
+import { createBlock } from "./operations/blocks.js";
+import { uploadFile } from "./operations/files.js";
+
+export interface MarkdownImportOptions {
+  dir: string;
+  dryRun?: boolean; // Convert and report, without uploading or writing anything
+  skipExisting?: boolean; // Leave pages that already exist untouched
+  merge?: string; // Append to existing pages under a block with this text (nestUnder)
+  onProgress?: (message: string) => void;
+}
+
+export type ImportAction = "create" | "merge" | "skip" | "conflict" | "failed";
+
+export interface ImportedFile {
+  file: string; // Relative to the import directory
+  title: string;
+  action: ImportAction;
+  uploads: string[]; // Local files uploaded (or, in a dry run, that would be)
+  error?: string;
+  markdown?: string; // Converted markdown (dry run only)
+}
+
+export interface MarkdownImportSummary {
+  dir: string;
+  dryRun: boolean;
+  files: ImportedFile[];
+}
+
+// Properties used for the page itself rather than converted to attributes
+const RESERVED_PROPERTIES = new Set(["title", "uid"]);
+
+const IMAGE_EXTENSIONS = new Set([
+  ".png",
+  ".jpg",
+  ".jpeg",
+  ".gif",
+  ".webp",
+  ".bmp",
+  ".svg",
+  ".tif",
+  ".tiff",
+  ".heic",
+  ".heif",
+  ".avif",
+]);
+
+const PAGE_EXISTS_QUERY = `[:find ?uid
+ :in $ ?title
+ :where [?p :node/title ?title] [?p :block/uid ?uid]]`;
+
+// ============================================================================
+// Front matter
+// ============================================================================
+
+type PropertyValue = string | string[];
+
+function parseScalar(raw: string): string {
+  const value = raw.trim();
+  if (value.startsWith('"') && value.endsWith('"')) {
+    try {
+      return JSON.parse(value) as string;
+    } catch {
+      return value.slice(1, -1);
+    }
+  }
+  if (value.startsWith("'") && value.endsWith("'")) return value.slice(1, -1).replace(/''/g, "'");
+  return value;
+}
+
+/**
+ * Split YAML front matter from a Markdown file. Supports the flat subset vaults use:
+ * `key: value`, inline lists (`key: [a, b]`) and block lists (`key:` then `  - a`).
+ */
+export function parseFrontMatter(content: string): {
+  properties: Record<string, PropertyValue>;
+  body: string;
+} {
+  const match = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/.exec(content);
+  if (!match) return { properties: {}, body: content };
+
+  const properties: Record<string, PropertyValue> = {};
+  let listKey: string | null = null;
+  for (const line of match[1].split(/\r?\n/)) {
+    const item = /^\s+-\s+(.*)$/.exec(line);
+    if (item && listKey) {
+      (properties[listKey] as string[]).push(parseScalar(item[1]));
+      continue;
+    }
+    const pair = /^([^\s:#][^:]*):(?:\s+(.*))?$/.exec(line);
+    if (!pair) continue;
+    const key = pair[1].trim();
+    const raw = (pair[2] ?? "").trim();
+    listKey = null;
+    if (raw === "") {
+      properties[key] = [];
+      listKey = key;
+    } else if (raw.startsWith("[") && raw.endsWith("]")) {
+      properties[key] = raw
+        .slice(1, -1)
+        .split(",")
+        .map(parseScalar)
+        .filter((v) => v !== "");
+    } else {
+      properties[key] = parseScalar(raw);
+    }
+  }
+  return { properties, body: content.slice(match[0].length) };
+}
+
+function attributeBlocks(properties: Record<string, PropertyValue>): string {
+  const lines: string[] = [];
+  for (const [key, value] of Object.entries(properties)) {
+    if (RESERVED_PROPERTIES.has(key.toLowerCase())) continue;
+    const text = Array.isArray(value)
+      ? value.map((v) => (v.startsWith("[[") ? v : `[[${v}]]`)).join(", ")
+      : value;
+    if (text === "") continue;
+    lines.push(`- ${key}:: ${text}`);
+  }
+  return lines.join("\n");
+}
+
+// ============================================================================
+// Vault scanning
+// ============================================================================
+
+interface VaultFile {
+  path: string; // Absolute
+  relativePath: string;
+  title: string;
+  titleFromName: boolean; // No front-matter title; the title is the file name
+  properties: Record<string, PropertyValue>;
+  body: string;
+}
+
+// All files under dir, skipping dot-folders (.obsidian, .trash, .git)
+async function listFiles(dir: string): Promise<string[]> {
+  const files: string[] = [];
+  for (const entry of await readdir(dir, { withFileTypes: true })) {
+    if (entry.name.startsWith(".")) continue;
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) files.push(...(await listFiles(path)));
+    else if (entry.isFile()) files.push(path);
+  }
+  return files;
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+// ============================================================================
+// Conversion
+// ============================================================================
+
+interface ConversionContext {
+  file: VaultFile;
+  titlesByPath: Map<string, string>; // Absolute .md path -> page title
+  filesByLinkName: Map<string, VaultFile[]>; // Lowercased basename or vault-relative path
+  assetPaths: Set<string>; // Absolute paths of non-Markdown files
+  assetsByName: Map<string, string>; // Lowercased basename -> absolute path
+  upload: (path: string) => Promise<string>; // Returns the Roam URL
+}
+
+function isExternal(target: string): boolean {
+  return /^[a-z][a-z0-9+.-]*:/i.test(target);
+}
+
+// Page title for a wiki-link target: the linked vault file's title when there is one,
+// otherwise the target as written (a page that will be created by the link). A file name
+// shared by several files resolves like Obsidian: same folder first, then the shortest path.
+function linkTitle(target: string, context: ConversionContext): string {
+  const name = target.trim().replace(/\.md$/i, "");
+  const candidates = context.filesByLinkName.get(name.toLowerCase());
+  if (!candidates) return name;
+  const folder = dirname(context.file.path);
+  const file =
+    candidates.find((f) => dirname(f.path) === folder) ??
+    [...candidates].sort((a, b) => a.relativePath.length - b.relativePath.length)[0];
+  return file.title;
+}
+
+/**
+ * Give every file a distinct page title, so two files never end up on one page. Files named
+ * after their file name (e.g. a/README.md and b/README.md) that collide are titled by their
+ * vault-relative path instead ("a/README"). Returns the files whose title is still taken
+ * (e.g. the same front-matter title twice), mapped to the file that keeps it.
+ */
+function assignUniqueTitles(files: VaultFile[]): Map<VaultFile, VaultFile> {
+  const countByTitle = new Map<string, number>();
+  for (const f of files) countByTitle.set(f.title, (countByTitle.get(f.title) ?? 0) + 1);
+  for (const f of files) {
+    if (f.titleFromName && countByTitle.get(f.title)! > 1) {
+      f.title = f.relativePath.replace(/\.md$/i, "").split(sep).join("/");
+    }
+  }
+
+  const owners = new Map<string, VaultFile>();
+  const duplicates = new Map<VaultFile, VaultFile>();
+  for (const f of files) {
+    const owner = owners.get(f.title);
+    if (owner) duplicates.set(f, owner);
+    else owners.set(f.title, f);
+  }
+  return duplicates;
+}
+
+// Local image for a link target: relative to the note first, then anywhere in the vault by name
+// (Obsidian resolves ![[image.png]] by file name)
+function findAsset(target: string, context: ConversionContext): string | null {
+  const decoded = safeDecode(target);
+  if (!IMAGE_EXTENSIONS.has(extname(decoded).toLowerCase())) return null;
+  const fromFile = resolve(dirname(context.file.path), decoded);
+  if (context.assetPaths.has(fromFile)) return fromFile;
+  return context.assetsByName.get(basename(decoded).toLowerCase()) ?? null;
+}
+
+async function replaceAsync(
+  text: string,
+  pattern: RegExp,
+  replacer: (match: RegExpExecArray) => Promise<string>,
+): Promise<string> {
+  let out = "";
+  let last = 0;
+  for (const match of text.matchAll(pattern)) {
+    out += text.slice(last, match.index) + (await replacer(match as RegExpExecArray));
+    last = match.index! + match[0].length;
+  }
+  return out + text.slice(last);
+}
+
+/**
+ * Convert one vault file's body to Roam markdown: embeds, wiki-links with aliases or
+ * headings, links to other .md files, and local images.
+ */
+async function convertBody(body: string, context: ConversionContext): Promise<string> {
+  // ![[image.png|300]] and ![[Note]]
+  let markdown = await replaceAsync(
+    body,
+    /!\[\[([^\]|#^]+)(?:[#^][^\]|]*)?(?:\|[^\]]*)?\]\]/g,
+    async (m) => {
+      const asset = findAsset(m[1], context);
+      if (asset) return `![](${await context.upload(asset)})`;
+      return `{{embed: [[${linkTitle(m[1], context)}]]}}`;
+    },
+  );
+
+  // [[Note|alias]], [[Note#Heading]], [[folder/Note]]
+  markdown = markdown.replace(
+    /\[\[([^\]|#^]+)(?:[#^][^\]|]*)?(?:\|([^\]]*))?\]\]/g,
+    (_match, target: string, alias: string | undefined) => {
+      const title = linkTitle(target, context);
+      return alias && alias !== title ? `[${alias}]([[${title}]])` : `[[${title}]]`;
+    },
+  );
+
+  // ![alt](local/image.png)
+  markdown = await replaceAsync(markdown, /!\[([^\]]*)\]\(([^)\s]+)\)/g, async (m) => {
+    if (isExternal(m[2])) return m[0];
+    const asset = findAsset(m[2], context);
+    return asset ? `![${m[1]}](${await context.upload(asset)})` : m[0];
+  });
+
+  // [text](Other%20Note.md)
+  markdown = markdown.replace(
+    /(?<!!)\[([^\]]*)\]\(([^)\s]+\.md)(?:#[^)]*)?\)/gi,
+    (match, text: string, target: string) => {
+      if (isExternal(target)) return match;
+      const path = resolve(dirname(context.file.path), safeDecode(target));
+      const title = context.titlesByPath.get(path);
+      if (!title) return match;
+      return text === title ? `[[${title}]]` : `[${text}]([[${title}]])`;
+    },
+  );
+
+  return markdown.trim();
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+function resultText(result: { content: Array<{ type: string }> }): string {
+  return (result.content[0] as TextContent | undefined)?.text ?? "";
+}
+
+/**
+ * Import every .md file under options.dir as a page. Files are processed independently:
+ * a failure is recorded for that file and the import continues.
+ */
+export async function importFromMarkdown(
+  client: RoamClient,
+  options: MarkdownImportOptions,
+): Promise<MarkdownImportSummary> {
+  if (options.skipExisting && options.merge !== undefined) {
+    throw new RoamError("Use skipExisting or merge, not both", ErrorCodes.VALIDATION_ERROR);
+  }
+  const dir = resolve(options.dir);
+  const progress = options.onProgress ?? (() => {});
+
+  const paths = await listFiles(dir);
+  const files: VaultFile[] = [];
+  const assetPaths = new Set<string>();
+  const assetsByName = new Map<string, string>();
+  for (const path of paths) {
+    if (extname(path).toLowerCase() !== ".md") {
+      assetPaths.add(path);
+      assetsByName.set(basename(path).toLowerCase(), path);
+      continue;
+    }
+    const { properties, body } = parseFrontMatter(await readFile(path, "utf-8"));
+    const frontMatterTitle =
+      typeof properties.title === "string" && properties.title.trim()
+        ? properties.title.trim()
+        : undefined;
+    files.push({
+      path,
+      relativePath: relative(dir, path),
+      title: frontMatterTitle ?? basename(path, extname(path)),
+      titleFromName: frontMatterTitle === undefined,
+      properties,
+      body,
+    });
+  }
+  const duplicates = assignUniqueTitles(files);
+
+  const titlesByPath = new Map(files.map((f) => [f.path, f.title]));
+  const filesByLinkName = new Map<string, VaultFile[]>();
+  for (const f of files) {
+    const names = new Set([
+      basename(f.path, extname(f.path)).toLowerCase(),
+      f.relativePath.replace(/\.md$/i, "").split(sep).join("/").toLowerCase(),
+    ]);
+    for (const name of names) filesByLinkName.set(name, [...(filesByLinkName.get(name) ?? []), f]);
+  }
+
+  // Decide against the graph as it was before the import: links in one file create the pages
+  // they reference, which must not turn a later file's page into a "merge"
+  const existingTitles = new Set<string>();
+  for (const file of files) {
+    const existing = await client.call<unknown[]>("q", [PAGE_EXISTS_QUERY, file.title]);
+    if (existing.result && existing.result.length > 0) existingTitles.add(file.title);
+  }
+
+  const uploaded = new Map<string, string>(); // Absolute path -> URL
+  const results: ImportedFile[] = [];
+
+  for (const [i, file] of files.entries()) {
+    progress(`[${i + 1}/${files.length}] ${file.relativePath}`);
+    const uploads: string[] = [];
+    const result: ImportedFile = {
+      file: file.relativePath,
+      title: file.title,
+      action: "create",
+      uploads,
+    };
+    results.push(result);
+
+    try {
+      const owner = duplicates.get(file);
+      if (owner) {
+        result.action = "conflict";
+        result.error = `Same page title as ${owner.relativePath}; give one of them a different title`;
+        continue;
+      }
+      if (existingTitles.has(file.title)) {
+        if (options.skipExisting) {
+          result.action = "skip";
+          continue;
+        }
+        if (options.merge === undefined) {
+          result.action = "conflict";
+          result.error = "Page already exists (use skipExisting or merge)";
+          continue;
+        }
+        result.action = "merge";
+      }
+
+      const upload = async (path: string): Promise<string> => {
+        if (!uploads.includes(relative(dir, path))) uploads.push(relative(dir, path));
+        if (options.dryRun) return relative(dir, path);
+        if (!uploaded.has(path)) {
+          const text = resultText(await uploadFile(client, { filePath: path }));
+          uploaded.set(path, (JSON.parse(text) as { url: string }).url);
+        }
+        return uploaded.get(path)!;
+      };
+
+      const body = await convertBody(file.body, {
+        file,
+        titlesByPath,
+        filesByLinkName,
+        assetPaths,
+        assetsByName,
+        upload,
+      });
+      const markdown = [attributeBlocks(file.properties), body].filter(Boolean).join("\n");
+
+      if (options.dryRun) {
+        result.markdown = markdown;
+        continue;
+      }
+      if (result.action === "merge") {
+        if (markdown) {
+          await createBlock(client, {
+            pageTitle: file.title,
+            nestUnder: options.merge,
+            markdown,
+            dryRun: false,
+          });
+        }
+      } else {
+        // A link in an earlier file may have created the (empty) page already
+        const created = await client.call<unknown[]>("q", [PAGE_EXISTS_QUERY, file.title]);
+        if (created.result && created.result.length > 0) {
+          if (markdown) {
+            await createBlock(client, { pageTitle: file.title, markdown, dryRun: false });
+          }
+        } else {
+          await createPage(client, { title: file.title, markdown, dryRun: false });
+        }
+      }
+    } catch (error) {
+      result.action = "failed";
+      result.error = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  return { dir, dryRun: options.dryRun ?? false, files: results };
+}
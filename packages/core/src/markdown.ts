@@ -0,0 +1,40 @@
+// src/core/markdown.ts
+// Helpers for block strings and the markdown returned by data.ai.getPage / getBlock
+
+// <roam uid="..." /> metadata tags (and any paired <roam ...>...</roam> wrappers)
+const ROAM_TAG_PATTERN = /[ \t]*<\/?roam\b[^>]*?\/?>/g;
+
+/**
+ * Remove <roam> metadata tags so the markdown can be sent back through fromMarkdown.
+ */
+export function stripRoamTags(markdown: string): string {
+  return markdown.replace(ROAM_TAG_PATTERN, "");
+}
+
+/**
+ * UIDs from <roam uid="..."> tags, in document order.
+ */
+export function extractRoamUids(markdown: string): string[] {
+  return [...markdown.matchAll(/<roam\b[^>]*?\buid="([^"]+)"/g)].map((m) => m[1]);
+}
+
+export function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Characters that end a #tag (a tag can't contain whitespace)
+const TAG_END = '(?=$|[\\s,.;:!?()"\\]])';
+
+/**
+ * Rewrite references to a page title in a block string: [[Old]] (including #[[Old]] and
+ * aliases), #Old and a leading Old:: attribute. #Old becomes #[[New]] when New can't be a
+ * bare tag. Namespaced titles such as [[Old/Child]] are separate pages and are left alone.
+ */
+export function rewritePageReferences(text: string, oldTitle: string, newTitle: string): string {
+  const old = escapeRegExp(oldTitle);
+  const tag = /^[^\s[\]#,.;:!?()"]+$/.test(newTitle) ? `#${newTitle}` : `#[[${newTitle}]]`;
+  return text
+    .replace(new RegExp(`\\[\\[${old}\\]\\]`, "g"), () => `[[${newTitle}]]`)
+    .replace(new RegExp(`(^|\\s)#${old}${TAG_END}`, "g"), (_match, before: string) => before + tag)
+    .replace(new RegExp(`^${old}::`), () => `${newTitle}::`);
+}
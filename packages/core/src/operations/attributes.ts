@@ -0,0 +1,216 @@
+import { z } from "zod";
+import type { RoamClient } from "../client.js";
+import type { CallToolResult, TextContent } from "../types.js";
+import { textResult, RoamError, ErrorCodes } from "../types.js";
+import { DryRunField, isDryRun, dryRunResult } from "./dry-run.js";
+import { parseDailyNoteTitle } from "../dates.js";
+import { createBlock } from "./blocks.js";
+
+// Schemas
+export const GetAttributesSchema = z.object({
+  uid: z.string().optional().describe("UID of the page or block (required if no title)"),
+  title: z.string().optional().describe("Page title (required if no uid)"),
+});
+
+export const SetAttributeSchema = z.object({
+  uid: z.string().describe("UID of the page or block that owns the attribute"),
+  key: z
+    .string()
+    .min(1)
+    .refine((key) => !key.includes("::") && !key.includes("\n"), "Key can't contain '::'")
+    .describe('Attribute name, without "::" (e.g. "Status")'),
+  value: z
+    .string()
+    .describe('Attribute value as Roam markup (e.g. "[[Done]]", "[[a]], [[b]]", "42")'),
+  dryRun: DryRunField,
+});
+
+export const FindPagesByAttributeSchema = z.object({
+  key: z.string().min(1).describe('Attribute name, without "::" (e.g. "Status")'),
+  value: z
+    .string()
+    .describe(
+      'Value to match: a page title ("Done" or "[[Done]]"), a number, a date (YYYY-MM-DD) or text',
+    ),
+});
+
+// Types derived from schemas
+export type GetAttributesParams = z.infer<typeof GetAttributesSchema>;
+export type SetAttributeParams = z.infer<typeof SetAttributeSchema>;
+export type FindPagesByAttributeParams = z.infer<typeof FindPagesByAttributeSchema>;
+
+// A parsed attribute value. Daily note page refs are dates.
+export type AttributeValue =
+  | { type: "ref"; title: string }
+  | { type: "date"; date: string; title?: string }
+  | { type: "number"; value: number }
+  | { type: "text"; value: string };
+
+export interface Attribute {
+  uid: string; // The "key:: value" block
+  raw: string; // Value as written
+  values: AttributeValue[];
+}
+
+const CHILDREN_BY_UID_QUERY = `[:find ?uid ?s ?order
+ :in $ ?parent-uid
+ :where [?p :block/uid ?parent-uid]
+        [?p :block/children ?c]
+        [?c :block/uid ?uid]
+        [?c :block/string ?s]
+        [?c :block/order ?order]]`;
+
+const CHILDREN_BY_TITLE_QUERY = `[:find ?uid ?s ?order
+ :in $ ?title
+ :where [?p :node/title ?title]
+        [?p :block/children ?c]
+        [?c :block/uid ?uid]
+        [?c :block/string ?s]
+        [?c :block/order ?order]]`;
+
+// "key::" blocks reference the key's page, so start from its refs rather than scanning strings
+const PAGE_ATTRIBUTE_QUERY = `[:find ?title ?page-uid ?uid ?s
+ :in $ ?key
+ :where [?k :node/title ?key]
+        [?c :block/refs ?k]
+        [?p :block/children ?c]
+        [?p :node/title ?title]
+        [?p :block/uid ?page-uid]
+        [?c :block/uid ?uid]
+        [?c :block/string ?s]]`;
+
+const ATTRIBUTE_BLOCK = /^([^:\n`]+)::(.*)$/s;
+
+// [[Title]], #[[Title]] and #Tag
+const REF = /#?\[\[([^[\]]+)\]\]|#([^\s[\]#,]+)/g;
+
+/**
+ * Split a "key:: value" block string into its key and raw value, or null if it isn't one.
+ */
+export function parseAttributeBlock(text: string): { key: string; raw: string } | null {
+  const match = ATTRIBUTE_BLOCK.exec(text);
+  return match ? { key: match[1].trim(), raw: match[2].trim() } : null;
+}
+
+/**
+ * Parse an attribute value: a comma-separated list of refs (daily note refs become dates),
+ * a number, an ISO date, or otherwise text.
+ */
+export function parseAttributeValue(raw: string): AttributeValue[] {
+  const value = raw.trim();
+  if (value === "") return [];
+
+  const refs = [...value.matchAll(REF)].map((match) => match[1] ?? match[2]);
+  if (refs.length > 0 && value.replace(REF, "").replace(/[\s,]/g, "") === "") {
+    return refs.map((title) => {
+      const date = parseDailyNoteTitle(title);
+      return date ? { type: "date", date, title } : { type: "ref", title };
+    });
+  }
+  if (/^-?\d+(?:\.\d+)?$/.test(value)) return [{ type: "number", value: Number(value) }];
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return [{ type: "date", date: value }];
+  return [{ type: "text", value }];
+}
+
+function matchesValue(attribute: Attribute, wanted: string): boolean {
+  const target = wanted.trim();
+  const title = target.replace(/^#?\[\[(.*)\]\]$/, "$1").replace(/^#/, "");
+  if (attribute.raw === target) return true;
+  return attribute.values.some((value) => {
+    switch (value.type) {
+      case "ref":
+        return value.title === title;
+      case "date":
+        return value.date === target || value.title === title;
+      case "number":
+        return target !== "" && value.value === Number(target);
+      case "text":
+        return value.value === target;
+    }
+  });
+}
+
+// "key:: value" children of a page or block, in order
+async function attributeChildren(
+  client: RoamClient,
+  by: { uid?: string; title?: string },
+): Promise<Array<{ key: string } & Attribute>> {
+  const response = await client.call<Array<[string, string, number]>>(
+    "q",
+    by.uid !== undefined ? [CHILDREN_BY_UID_QUERY, by.uid] : [CHILDREN_BY_TITLE_QUERY, by.title],
+  );
+  return (response.result ?? [])
+    .sort((a, b) => a[2] - b[2])
+    .flatMap(([uid, string]) => {
+      const parsed = parseAttributeBlock(string);
+      return parsed
+        ? [{ key: parsed.key, uid, raw: parsed.raw, values: parseAttributeValue(parsed.raw) }]
+        : [];
+    });
+}
+
+export async function getAttributes(
+  client: RoamClient,
+  params: GetAttributesParams,
+): Promise<CallToolResult> {
+  if ((params.uid === undefined) === (params.title === undefined)) {
+    throw new RoamError("Provide exactly one of 'uid' or 'title'", ErrorCodes.VALIDATION_ERROR);
+  }
+  const attributes: Record<string, Attribute> = {};
+  for (const { key, ...attribute } of await attributeChildren(client, params)) {
+    // A repeated key adds its values to the first block's
+    if (attributes[key]) attributes[key].values.push(...attribute.values);
+    else attributes[key] = attribute;
+  }
+  return textResult({ attributes });
+}
+
+export async function setAttribute(
+  client: RoamClient,
+  params: SetAttributeParams,
+): Promise<CallToolResult> {
+  const string = `${params.key}:: ${params.value}`;
+  // Like nestUnder, only direct children are considered; the first "key::" child is reused
+  const existing = (await attributeChildren(client, { uid: params.uid })).find(
+    (attribute) => attribute.key === params.key,
+  );
+
+  if (existing) {
+    const args = [{ block: { uid: existing.uid, string } }];
+    if (isDryRun(params)) {
+      return dryRunResult(client, "data.block.update", args, { uid: existing.uid });
+    }
+    await client.call("data.block.update", args);
+    return textResult({ uid: existing.uid, created: false });
+  }
+
+  // No "key::" child yet: add one at the end, exactly as create_block would
+  const result = await createBlock(client, {
+    parentUid: params.uid,
+    markdown: string,
+    order: "last",
+    dryRun: params.dryRun,
+  });
+  if (result.isError || isDryRun(params)) return result;
+  const { uids } = JSON.parse((result.content[0] as TextContent).text) as { uids: string[] };
+  return textResult({ uid: uids[0] ?? "", created: true });
+}
+
+export async function findPagesByAttribute(
+  client: RoamClient,
+  params: FindPagesByAttributeParams,
+): Promise<CallToolResult> {
+  const response = await client.call<Array<[string, string, string, string]>>("q", [
+    PAGE_ATTRIBUTE_QUERY,
+    params.key,
+  ]);
+  const pages = (response.result ?? [])
+    .flatMap(([title, pageUid, uid, string]) => {
+      const parsed = parseAttributeBlock(string);
+      if (!parsed || parsed.key !== params.key) return [];
+      const attribute = { uid, raw: parsed.raw, values: parseAttributeValue(parsed.raw) };
+      return matchesValue(attribute, params.value) ? [{ title, uid: pageUid, attribute }] : [];
+    })
+    .sort((a, b) => a.title.localeCompare(b.title));
+  return textResult({ total: pages.length, pages });
+}
@@ -0,0 +1,318 @@
+import { z } from "zod";
+import type { RoamClient } from "../client.js";
+import type { CallToolResult, TextContent } from "../types.js";
+import { textResult, RoamError, ErrorCodes } from "../types.js";
+import {
+  CreateBlockSchema,
+  UpdateBlockSchema,
+  MoveBlockSchema,
+  DeleteBlockSchema,
+  buildBlockUpdate,
+  createBlock,
+} from "./blocks.js";
+import { DryRunField, isDryRun } from "./dry-run.js";
+import { resolveDateParam } from "./daily-notes.js";
+import { dailyNoteUid } from "../dates.js";
+import type { PendingJournalEntry } from "../journal.js";
+import { markUndone, readUndoableEntries, remapStep } from "../journal.js";
+import { replayInverse } from "./undo.js";
+
+// Each operation takes the same fields as the matching single-block tool, plus a type
+const BatchOperationSchema = z.discriminatedUnion("type", [
+  CreateBlockSchema.omit({ dryRun: true }).extend({ type: z.literal("create") }),
+  UpdateBlockSchema.omit({ dryRun: true }).extend({ type: z.literal("update") }),
+  MoveBlockSchema.omit({ dryRun: true }).extend({ type: z.literal("move") }),
+  DeleteBlockSchema.omit({ dryRun: true }).extend({ type: z.literal("delete") }),
+]);
+
+const MAX_BATCH_OPERATIONS = 100;
+
+export const BatchOperationsSchema = z.object({
+  operations: z
+    .preprocess(
+      // Accept a JSON string too (CLI flags are strings)
+      (value) => {
+        if (typeof value !== "string") return value;
+        try {
+          return JSON.parse(value);
+        } catch {
+          return value;
+        }
+      },
+      z.array(BatchOperationSchema).min(1).max(MAX_BATCH_OPERATIONS),
+    )
+    .describe(
+      `Ordered list (max ${MAX_BATCH_OPERATIONS}) of operations. Each has a type ("create", "update", "move" or "delete") and the same fields as create_block, update_block, move_block or delete_block. The uid and parentUid fields can reference uids produced by an earlier step: "$0.uids[0]" is the first uid created by step 0, "$2.uid" is the block step 2 updated/moved/deleted. Other fields, such as markdown and string, are used as written.`,
+    ),
+  dryRun: DryRunField,
+});
+
+export type BatchOperationsParams = z.infer<typeof BatchOperationsSchema>;
+type BatchOperation = z.infer<typeof BatchOperationSchema>;
+
+// What each completed step exposes to later $N references
+interface StepResult {
+  index: number;
+  type: BatchOperation["type"];
+  uids?: string[]; // create
+  uid?: string; // update, move, delete
+}
+
+// A completed step and, for updates/moves/deletes, the pre-image that reverses it
+interface CompletedStep {
+  result: StepResult;
+  preImage: PendingJournalEntry | null;
+  createdPage?: string; // Uid of the page a create step made by writing to a new pageTitle/date
+}
+
+const JOURNALED_STEP_ACTIONS = {
+  update: "data.block.update",
+  move: "data.block.move",
+  delete: "data.block.delete",
+} as const;
+
+const PAGE_UID_BY_TITLE_QUERY = `[:find ?uid
+ :in $ ?title
+ :where [?p :node/title ?title] [?p :block/uid ?uid]]`;
+
+const PAGE_BY_UID_QUERY = `[:find ?uid
+ :in $ ?uid
+ :where [?p :block/uid ?uid] [?p :node/title ?title]]`;
+
+const STEP_REFERENCE = /\$(\d+)\.(?:uids\[(\d+)\]|uid\b)/g;
+
+// Only uid fields take $N references, so block text containing "$1.uid" is left alone
+const REFERENCE_FIELDS = ["uid", "parentUid"] as const;
+
+function referenceFields(operation: BatchOperation): Array<[string, string]> {
+  return REFERENCE_FIELDS.flatMap((field) => {
+    const value = (operation as Record<string, unknown>)[field];
+    return typeof value === "string" ? [[field, value] as [string, string]] : [];
+  });
+}
+
+// Reject references to the current or later steps before anything is written
+function validateReferences(operations: BatchOperation[]): void {
+  operations.forEach((operation, index) => {
+    for (const [, value] of referenceFields(operation)) {
+      for (const match of value.matchAll(STEP_REFERENCE)) {
+        if (Number(match[1]) >= index) {
+          throw new RoamError(
+            `Operation ${index} references "${match[0]}", but operations can only reference earlier steps`,
+            ErrorCodes.VALIDATION_ERROR,
+          );
+        }
+      }
+    }
+  });
+}
+
+function resolveReferences(operation: BatchOperation, results: StepResult[]): BatchOperation {
+  const resolve = (value: string): string =>
+    value.replace(STEP_REFERENCE, (ref, step: string, uidIndex: string | undefined) => {
+      const result = results[Number(step)];
+      const uid = uidIndex !== undefined ? result.uids?.[Number(uidIndex)] : result.uid;
+      if (!uid) {
+        throw new RoamError(
+          `Reference "${ref}" did not resolve: step ${step} (${result.type}) produced no such uid`,
+          ErrorCodes.VALIDATION_ERROR,
+        );
+      }
+      return uid;
+    });
+  return {
+    ...operation,
+    ...Object.fromEntries(
+      referenceFields(operation).map(([field, value]) => [field, resolve(value)]),
+    ),
+  } as BatchOperation;
+}
+
+function parseResult(result: CallToolResult): Record<string, unknown> {
+  const text = (result.content[0] as TextContent | undefined)?.text;
+  return text ? (JSON.parse(text) as Record<string, unknown>) : {};
+}
+
+// The Local API call an update/move/delete step makes, as update_block/move_block/delete_block do
+function stepCall(operation: Exclude<BatchOperation, { type: "create" }>): {
+  action: string;
+  args: unknown[];
+} {
+  const action = JOURNALED_STEP_ACTIONS[operation.type];
+  switch (operation.type) {
+    case "update":
+      return { action, args: [{ block: buildBlockUpdate(operation) }] };
+    case "move":
+      return {
+        action,
+        args: [
+          {
+            location: { "parent-uid": operation.parentUid, order: operation.order },
+            block: { uid: operation.uid },
+          },
+        ],
+      };
+    case "delete":
+      return { action, args: [{ block: { uid: operation.uid } }] };
+  }
+}
+
+/**
+ * Uid of the page a create step targets by pageTitle or dailyNotePage, if that page exists.
+ * Roam creates a missing one, so checking before and after tells whether the step made it.
+ */
+async function findTargetPage(
+  client: RoamClient,
+  operation: Extract<BatchOperation, { type: "create" }>,
+): Promise<string | undefined> {
+  const args =
+    operation.dailyNotePage !== undefined
+      ? [PAGE_BY_UID_QUERY, dailyNoteUid(resolveDateParam(operation.dailyNotePage))]
+      : [PAGE_UID_BY_TITLE_QUERY, operation.pageTitle];
+  const response = await client.call<Array<[string]>>("q", args);
+  return response.result?.[0]?.[0];
+}
+
+/**
+ * Run one step. Updates/moves/deletes are snapshotted first, by the batch itself, so rollback
+ * works even when the undo journal is off or fails to record the step; the client journals
+ * the same snapshot instead of taking its own. The snapshot is null when there is no such
+ * block (e.g. a page uid).
+ */
+async function runOperation(
+  client: RoamClient,
+  operation: BatchOperation,
+  index: number,
+): Promise<CompletedStep> {
+  if (operation.type === "create") {
+    const targetsPage =
+      operation.parentUid === undefined &&
+      (operation.pageTitle !== undefined || operation.dailyNotePage !== undefined);
+    const pageExisted = targetsPage && (await findTargetPage(client, operation)) !== undefined;
+    // dryRun: false so a global ROAM_DRY_RUN doesn't apply per step
+    const { type: _type, ...params } = operation;
+    const result = parseResult(await createBlock(client, { ...params, dryRun: false }));
+    return {
+      result: { index, type: "create", uids: (result.uids as string[] | undefined) ?? [] },
+      preImage: null,
+      ...(targetsPage && !pageExisted && { createdPage: await findTargetPage(client, operation) }),
+    };
+  }
+  const { action, args } = stepCall(operation);
+  const preImage = await client.snapshotBeforeWrite(action, args);
+  await client.call(action, args, { preImage });
+  return { result: { index, type: operation.type, uid: operation.uid }, preImage };
+}
+
+/**
+ * Undo completed steps, newest first: created blocks are deleted (with the page, if the step
+ * created that too), and updates/moves/deletes are reverted from the pre-images taken before
+ * they ran. Blocks recreated along the way get
+ * new uids, which later (older) steps are mapped through.
+ */
+async function rollBack(
+  client: RoamClient,
+  completed: CompletedStep[],
+  startedAt: number,
+): Promise<{ rolledBack: number[]; errors: Array<{ index: number; error: string }> }> {
+  // Steps that reached the undo journal are marked undone there, so undo_last_change skips them
+  const { name, type } = client.getGraph();
+  const { entries } = await readUndoableEntries(name, type);
+  const journaled = entries.filter((entry) => new Date(entry.timestamp).getTime() >= startedAt);
+
+  const uidMap = new Map<string, string>();
+  const rolledBack: number[] = [];
+  const errors: Array<{ index: number; error: string }> = [];
+  for (const { result: step, preImage, createdPage } of [...completed].reverse()) {
+    try {
+      if (step.type === "create") {
+        // Children before parents, so every delete still finds its block
+        for (const uid of [...(step.uids ?? [])].reverse()) {
+          const { action, args } = remapStep(
+            { action: "data.block.delete", args: [{ block: { uid } }] },
+            uidMap,
+          );
+          await client.call(action, args, { journal: false });
+        }
+        if (createdPage) {
+          await client.call("data.page.delete", [{ page: { uid: createdPage } }], {
+            journal: false,
+          });
+        }
+      } else {
+        if (!preImage) {
+          throw new Error("The block couldn't be snapshotted before this step");
+        }
+        const recreated = await replayInverse(client, preImage, uidMap);
+        const action = JOURNALED_STEP_ACTIONS[step.type];
+        let entryIndex = journaled.length - 1;
+        while (
+          entryIndex >= 0 &&
+          !(
+            journaled[entryIndex].action === action && journaled[entryIndex].before.uid === step.uid
+          )
+        ) {
+          entryIndex -= 1;
+        }
+        if (entryIndex !== -1) {
+          const [entry] = journaled.splice(entryIndex, 1);
+          await markUndone(entry.id, recreated);
+        }
+      }
+      rolledBack.push(step.index);
+    } catch (error) {
+      errors.push({
+        index: step.index,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  return { rolledBack, errors };
+}
+
+export async function batchOperations(
+  client: RoamClient,
+  params: BatchOperationsParams,
+): Promise<CallToolResult> {
+  const operations = params.operations;
+  validateReferences(operations);
+
+  if (isDryRun(params)) {
+    return textResult({
+      dryRun: true,
+      operations,
+      note: "Dry run — nothing was changed. $N references are resolved when the batch runs. Call again without dryRun to apply.",
+    });
+  }
+
+  const startedAt = Date.now();
+  const completed: CompletedStep[] = [];
+  const results = (): StepResult[] => completed.map(({ result }) => result);
+  for (const [index, operation] of operations.entries()) {
+    try {
+      const resolved = resolveReferences(operation, results());
+      completed.push(await runOperation(client, resolved, index));
+    } catch (error) {
+      const rollback = await rollBack(client, completed, startedAt);
+      return {
+        ...textResult({
+          error: {
+            step: index,
+            type: operation.type,
+            message: error instanceof Error ? error.message : String(error),
+            ...(error instanceof RoamError && error.code && { code: error.code }),
+          },
+          completed: completed.length,
+          rolledBack: rollback.rolledBack,
+          ...(rollback.errors.length > 0 && {
+            rollbackErrors: rollback.errors,
+            note: "Rollback was incomplete — check the steps listed in rollbackErrors.",
+          }),
+        }),
+        isError: true,
+      };
+    }
+  }
+
+  return textResult({ results: results() });
+}
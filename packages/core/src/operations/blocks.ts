@@ -1,7 +1,12 @@
 import { z } from "zod";
 import type { RoamClient } from "../client.js";
-import type { CallToolResult, GetBlockResponse } from "../types.js";
+import type { Block, CallToolResult, GetBlockResponse } from "../types.js";
 import { textResult, RoamError, ErrorCodes } from "../types.js";
+import { DryRunField, isDryRun, dryRunResult } from "./dry-run.js";
+import { extractRoamUids, stripRoamTags } from "../markdown.js";
+import { FormatField, fetchTrees } from "./tree.js";
+import { DateInput, resolveDateParam } from "./daily-notes.js";
+import { dailyNoteUid } from "../dates.js";
 
 // Schemas
 export const CreateBlockSchema = z.object({
@@ -17,13 +22,9 @@ export const CreateBlockSchema = z.object({
     .describe(
       "Page title to create block under (creates the page if it doesn't exist). Exactly one of parentUid, pageTitle, or dailyNotePage is required.",
     ),
-  dailyNotePage: z
-    .string()
-    .regex(/^\d{2}-\d{2}-\d{4}$/, "Must be MM-DD-YYYY format (e.g. '03-17-2026')")
-    .optional()
-    .describe(
-      "Daily note date in MM-DD-YYYY format (e.g. '03-17-2026'). Targets that day's daily note page, creating it if needed. Exactly one of parentUid, pageTitle, or dailyNotePage is required.",
-    ),
+  dailyNotePage: DateInput.optional().describe(
+    "Daily note date: MM-DD-YYYY (e.g. '03-17-2026'), YYYY-MM-DD, a title like 'March 17th, 2026', or today/yesterday/tomorrow/next monday/3 days ago. Targets that day's daily note page, creating it if needed. Exactly one of parentUid, pageTitle, or dailyNotePage is required.",
+  ),
   nestUnder: z
     .string()
     .optional()
@@ -35,6 +36,7 @@ export const CreateBlockSchema = z.object({
     .union([z.coerce.number(), z.enum(["first", "last"])])
     .optional()
     .describe("Position (number, 'first', or 'last'). Defaults to 'last'"),
+  dryRun: DryRunField,
 });
 
 export const GetBlockSchema = z.object({
@@ -43,6 +45,7 @@ export const GetBlockSchema = z.object({
     .number()
     .optional()
     .describe("Max depth of children to include in markdown (omit for full tree)"),
+  format: FormatField,
 });
 
 export const UpdateBlockSchema = z.object({
@@ -55,10 +58,12 @@ export const UpdateBlockSchema = z.object({
     .optional()
     .describe("How children are displayed (bullet, numbered, or document)"),
   textAlign: z.enum(["left", "center", "right", "justify"]).optional().describe("Text alignment"),
+  dryRun: DryRunField,
 });
 
 export const DeleteBlockSchema = z.object({
   uid: z.string().describe("Block UID to delete"),
+  dryRun: DryRunField,
 });
 
 export const MoveBlockSchema = z.object({
@@ -67,6 +72,17 @@ export const MoveBlockSchema = z.object({
   order: z
     .union([z.coerce.number(), z.enum(["first", "last"])])
     .describe("Position in the new parent (number, 'first', or 'last')"),
+  dryRun: DryRunField,
+});
+
+export const CopyBlockSchema = CreateBlockSchema.omit({ markdown: true }).extend({
+  uid: z.string().describe("UID of the block to copy (its whole subtree is copied)"),
+  leaveInPlace: z
+    .enum(["ref", "embed"])
+    .optional()
+    .describe(
+      "Replace the original with a ((ref)) or {{embed}} of the copy, moving the original's children under the copy (their uids and refs are kept). Omit to leave the original untouched",
+    ),
 });
 
 export const GetBacklinksSchema = z.object({
@@ -99,6 +115,7 @@ export type GetBlockParams = z.infer<typeof GetBlockSchema>;
 export type UpdateBlockParams = z.infer<typeof UpdateBlockSchema>;
 export type DeleteBlockParams = z.infer<typeof DeleteBlockSchema>;
 export type MoveBlockParams = z.infer<typeof MoveBlockSchema>;
+export type CopyBlockParams = z.infer<typeof CopyBlockSchema>;
 export type GetBacklinksParams = z.infer<typeof GetBacklinksSchema>;
 
 // Keep response types as interfaces (not input schemas)
@@ -115,11 +132,13 @@ export interface GetBacklinksResponse {
   results: BacklinkResult[];
 }
 
-export async function createBlock(
-  client: RoamClient,
-  params: CreateBlockParams,
-): Promise<CallToolResult> {
-  // Validate: exactly one of parentUid, pageTitle, or dailyNotePage
+export type BlockTarget = Pick<
+  CreateBlockParams,
+  "parentUid" | "pageTitle" | "dailyNotePage" | "nestUnder" | "order"
+>;
+
+// Local API location for a block target; exactly one of parentUid, pageTitle or dailyNotePage
+export function buildBlockLocation(params: BlockTarget): Record<string, unknown> {
   const targets = [params.parentUid, params.pageTitle, params.dailyNotePage].filter(
     (v) => v !== undefined,
   );
@@ -142,17 +161,38 @@ export async function createBlock(
   if (params.parentUid !== undefined) {
     location["parent-uid"] = params.parentUid;
   } else if (params.dailyNotePage !== undefined) {
-    location["page-title"] = { "daily-note-page": params.dailyNotePage };
+    location["page-title"] = {
+      "daily-note-page": dailyNoteUid(resolveDateParam(params.dailyNotePage)),
+    };
   } else {
     location["page-title"] = params.pageTitle;
   }
   if (params.nestUnder !== undefined) {
     location["nest-under-str"] = params.nestUnder;
   }
+  return location;
+}
 
-  const response = await client.call<{ uids: string[] }>("data.block.fromMarkdown", [
-    { location, "markdown-string": params.markdown },
-  ]);
+export function blockTargetPreview(params: BlockTarget): { uid?: string; title?: string } {
+  return params.parentUid !== undefined
+    ? { uid: params.parentUid }
+    : params.dailyNotePage !== undefined
+      ? { uid: dailyNoteUid(resolveDateParam(params.dailyNotePage)) }
+      : { title: params.pageTitle };
+}
+
+export async function createBlock(
+  client: RoamClient,
+  params: CreateBlockParams,
+): Promise<CallToolResult> {
+  const location = buildBlockLocation(params);
+
+  const args = [{ location, "markdown-string": params.markdown }];
+  if (isDryRun(params)) {
+    return dryRunResult(client, "data.block.fromMarkdown", args, blockTargetPreview(params));
+  }
+
+  const response = await client.call<{ uids: string[] }>("data.block.fromMarkdown", args);
   return textResult(response.result ?? { uids: [] });
 }
 
@@ -160,6 +200,11 @@ export async function getBlock(
   client: RoamClient,
   params: GetBlockParams,
 ): Promise<CallToolResult> {
+  if (params.format === "tree") {
+    const tree = (await fetchTrees(client, [params.uid], params.maxDepth)).get(params.uid);
+    return textResult(tree && !("title" in tree) ? tree : null);
+  }
+
   const apiParams: Record<string, unknown> = { uid: params.uid };
   if (params.maxDepth !== undefined) apiParams.maxDepth = params.maxDepth;
 
@@ -167,16 +212,26 @@ export async function getBlock(
   return textResult(response.result ?? null);
 }
 
-export async function updateBlock(
-  client: RoamClient,
-  params: UpdateBlockParams,
-): Promise<CallToolResult> {
+// Local API block for data.block.update: the uid plus only the fields being changed
+export function buildBlockUpdate(params: UpdateBlockParams): Record<string, unknown> {
   const block: Record<string, unknown> = { uid: params.uid };
   if (params.string !== undefined) block.string = params.string;
   if (params.open !== undefined) block.open = params.open;
   if (params.heading !== undefined) block.heading = params.heading;
   if (params.childrenViewType !== undefined) block["children-view-type"] = params.childrenViewType;
   if (params.textAlign !== undefined) block["text-align"] = params.textAlign;
+  return block;
+}
+
+export async function updateBlock(
+  client: RoamClient,
+  params: UpdateBlockParams,
+): Promise<CallToolResult> {
+  const block = buildBlockUpdate(params);
+
+  if (isDryRun(params)) {
+    return dryRunResult(client, "data.block.update", [{ block }], { uid: params.uid });
+  }
 
   await client.call("data.block.update", [{ block }]);
   return textResult({ success: true });
@@ -186,7 +241,12 @@ export async function deleteBlock(
   client: RoamClient,
   params: DeleteBlockParams,
 ): Promise<CallToolResult> {
-  await client.call("data.block.delete", [{ block: { uid: params.uid } }]);
+  const args = [{ block: { uid: params.uid } }];
+  if (isDryRun(params)) {
+    return dryRunResult(client, "data.block.delete", args, { uid: params.uid });
+  }
+
+  await client.call("data.block.delete", args);
   return textResult({ success: true });
 }
 
@@ -194,7 +254,7 @@ export async function moveBlock(
   client: RoamClient,
   params: MoveBlockParams,
 ): Promise<CallToolResult> {
-  await client.call("data.block.move", [
+  const args = [
     {
       location: {
         "parent-uid": params.parentUid,
@@ -204,10 +264,130 @@ export async function moveBlock(
         uid: params.uid,
       },
     },
-  ]);
+  ];
+  if (isDryRun(params)) {
+    return dryRunResult(client, "data.block.move", args, { uid: params.uid });
+  }
+
+  await client.call("data.block.move", args);
   return textResult({ success: true });
 }
 
+const PARENTS_QUERY = `[:find ?uid ?parent-uid
+ :in $ [?uid ...]
+ :where [?b :block/uid ?uid] [?p :block/children ?b] [?p :block/uid ?parent-uid]]`;
+
+// Block attributes markdown doesn't carry, set on each copy after it is created
+const COPIED_ATTRIBUTES = ["heading", "children-view-type", "text-align", "open"] as const;
+
+/**
+ * The root of a freshly created subtree: the one new block whose parent isn't also new.
+ */
+async function findCreatedRoot(client: RoamClient, uids: string[]): Promise<string | undefined> {
+  const response = await client.call<Array<[string, string]>>("q", [PARENTS_QUERY, uids]);
+  const created = new Set(uids);
+  return (response.result ?? []).find(([, parentUid]) => !created.has(parentUid))?.[0];
+}
+
+/**
+ * Pair each source block with its copy by walking both trees (children by order), recording
+ * old -> new uids and the attributes the copy needs to match its source. Returns false if
+ * the trees' shapes differ.
+ */
+function pairCopies(
+  source: Block,
+  copy: Block,
+  uidMap: Record<string, string>,
+  updates: Array<Record<string, unknown>>,
+): boolean {
+  uidMap[source.uid] = copy.uid;
+  const update: Record<string, unknown> = {};
+  for (const key of COPIED_ATTRIBUTES) {
+    if (source[key] !== undefined && source[key] !== copy[key]) update[key] = source[key];
+  }
+  if ((source.heading ?? 0) === (copy.heading ?? 0)) delete update.heading;
+  if (Object.keys(update).length > 0) updates.push({ uid: copy.uid, ...update });
+
+  const sourceChildren = source.children ?? [];
+  const copyChildren = copy.children ?? [];
+  let matched = sourceChildren.length === copyChildren.length;
+  sourceChildren.forEach((child, i) => {
+    if (copyChildren[i] && !pairCopies(child, copyChildren[i], uidMap, updates)) matched = false;
+  });
+  return matched;
+}
+
+export async function copyBlock(
+  client: RoamClient,
+  params: CopyBlockParams,
+): Promise<CallToolResult> {
+  const location = buildBlockLocation(params);
+  const source = await client.call<GetBlockResponse | undefined>("data.ai.getBlock", [
+    { uid: params.uid },
+  ]);
+  if (!source.result) {
+    throw new RoamError(`Block not found: ${params.uid}`, ErrorCodes.VALIDATION_ERROR);
+  }
+  const args = [{ location, "markdown-string": stripRoamTags(source.result.markdown) }];
+
+  if (isDryRun(params)) {
+    return textResult({
+      dryRun: true,
+      action: "data.block.fromMarkdown",
+      args,
+      copies: extractRoamUids(source.result.markdown).length,
+      ...(params.leaveInPlace && {
+        leaveInPlace: `${params.uid} becomes a ${params.leaveInPlace} of the copy; its children are moved under the copy`,
+      }),
+      note: "Dry run — nothing was changed. Call again without dryRun to apply.",
+    });
+  }
+
+  const sourceTree = (await fetchTrees(client, [params.uid])).get(params.uid) as Block;
+  const response = await client.call<{ uids: string[] }>("data.block.fromMarkdown", args);
+  const copyUid = await findCreatedRoot(client, response.result?.uids ?? []);
+  const copyTree = copyUid && ((await fetchTrees(client, [copyUid])).get(copyUid) as Block);
+  if (!copyTree) {
+    throw new RoamError(
+      `Copied ${params.uid}, but the copy couldn't be found afterwards`,
+      ErrorCodes.INTERNAL_ERROR,
+    );
+  }
+
+  const uidMap: Record<string, string> = {};
+  const updates: Array<Record<string, unknown>> = [];
+  const matched = pairCopies(sourceTree, copyTree, uidMap, updates);
+  // Formatting of the new blocks isn't worth journaling: undo can't remove the copy anyway
+  for (const block of updates) {
+    await client.call("data.block.update", [{ block }], { journal: false });
+  }
+
+  if (params.leaveInPlace) {
+    // Move the original children under the copy (in place of their duplicates), so their
+    // uids and any refs to them survive
+    for (const child of [...(copyTree.children ?? [])].reverse()) {
+      await client.call("data.block.delete", [{ block: { uid: child.uid } }], { journal: false });
+    }
+    for (const child of sourceTree.children ?? []) {
+      await client.call("data.block.move", [
+        { location: { "parent-uid": copyUid, order: "last" }, block: { uid: child.uid } },
+      ]);
+    }
+    const string = params.leaveInPlace === "embed" ? `{{embed: ((${copyUid}))}}` : `((${copyUid}))`;
+    await client.call("data.block.update", [{ block: { uid: params.uid, string } }]);
+    return textResult({ uid: copyUid, uidMap: { [params.uid]: copyUid } });
+  }
+
+  return textResult({
+    uid: copyUid,
+    uidMap,
+    ...(!matched && {
+      warning:
+        "The copy's block structure differs from the original's, so uidMap only covers the blocks that line up.",
+    }),
+  });
+}
+
 export async function getBacklinks(
   client: RoamClient,
   params: GetBacklinksParams,
@@ -244,6 +424,7 @@ export const AddCommentSchema = z.object({
     .describe(
       "Markdown comment parsed into multiple blocks. Required if comment not provided. Use only when you need structure (lists, headings). Harder to edit later.",
     ),
+  dryRun: DryRunField,
 });
 
 export const GetCommentsSchema = z.object({
@@ -296,6 +477,10 @@ export async function addComment(
   if (hasComment) apiParams["reply-string"] = params.comment;
   if (hasCommentMarkdown) apiParams["reply-markdown"] = params.commentMarkdown;
 
+  if (isDryRun(params)) {
+    return dryRunResult(client, "data.block.addComment", [apiParams], { uid: params.blockUid });
+  }
+
   const response = await client.call<{ uids: string[]; parentUid?: string }>(
     "data.block.addComment",
     [apiParams],
@@ -0,0 +1,105 @@
+import { z } from "zod";
+import type { RoamClient } from "../client.js";
+import type { CallToolResult, GetPageResponse } from "../types.js";
+import { textResult, RoamError, ErrorCodes } from "../types.js";
+import { dailyNoteTitle, resolveDate, toIsoDate } from "../dates.js";
+
+// A date in any form resolveDate accepts; tools describe it themselves
+export const DateInput = z.string().refine(
+  (value) => {
+    try {
+      resolveDate(value);
+      return true;
+    } catch {
+      return false;
+    }
+  },
+  {
+    message:
+      'Must be a date: YYYY-MM-DD, MM-DD-YYYY, a daily note title like "October 19th, 2026", or today/yesterday/tomorrow/next monday/3 days ago',
+  },
+);
+
+const MAX_DAYS = 93;
+
+export const GetDailyNotesSchema = z.object({
+  from: DateInput.describe(
+    'First day: YYYY-MM-DD, MM-DD-YYYY, "October 19th, 2026", or relative like "today", "last monday", "7 days ago"',
+  ),
+  to: DateInput.optional().describe("Last day, in the same formats (default: today)"),
+  maxDepth: z.coerce
+    .number()
+    .optional()
+    .describe("Max depth of children to include in markdown (omit for full tree)"),
+});
+
+export type GetDailyNotesParams = z.infer<typeof GetDailyNotesSchema>;
+
+const PAGES_BY_TITLE_QUERY = `[:find ?title ?uid
+ :in $ [?title ...]
+ :where [?p :node/title ?title] [?p :block/uid ?uid]]`;
+
+/**
+ * Resolve a date input, turning resolveDate's error into a validation error.
+ */
+export function resolveDateParam(value: string): Date {
+  try {
+    return resolveDate(value);
+  } catch (error) {
+    throw new RoamError((error as Error).message, ErrorCodes.VALIDATION_ERROR);
+  }
+}
+
+export async function getDailyNotes(
+  client: RoamClient,
+  params: GetDailyNotesParams,
+): Promise<CallToolResult> {
+  const from = resolveDateParam(params.from);
+  const to = resolveDateParam(params.to ?? "today");
+  if (from > to) {
+    throw new RoamError(
+      `'from' (${toIsoDate(from)}) is after 'to' (${toIsoDate(to)})`,
+      ErrorCodes.VALIDATION_ERROR,
+    );
+  }
+
+  const days: Date[] = [];
+  for (
+    let day = from;
+    day <= to;
+    day = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1)
+  ) {
+    days.push(day);
+    if (days.length > MAX_DAYS) {
+      throw new RoamError(
+        `Date range is longer than ${MAX_DAYS} days; request a shorter range`,
+        ErrorCodes.VALIDATION_ERROR,
+      );
+    }
+  }
+
+  const titles = days.map(dailyNoteTitle);
+  const existing = await client.call<Array<[string, string]>>("q", [PAGES_BY_TITLE_QUERY, titles]);
+  const uids = new Map(existing.result ?? []);
+
+  const pages: Array<{ date: string; title: string; uid: string; markdown: string }> = [];
+  const missing: string[] = [];
+  for (const [i, day] of days.entries()) {
+    const uid = uids.get(titles[i]);
+    if (!uid) {
+      missing.push(toIsoDate(day));
+      continue;
+    }
+    const apiParams: Record<string, unknown> = { uid };
+    if (params.maxDepth !== undefined) apiParams.maxDepth = params.maxDepth;
+    const page = await client.call<GetPageResponse | undefined>("data.ai.getPage", [apiParams]);
+    pages.push({
+      date: toIsoDate(day),
+      title: titles[i],
+      uid,
+      markdown: page.result?.markdown ?? "",
+    });
+  }
+
+  return textResult({ from: toIsoDate(from), to: toIsoDate(to), pages, missing });
+}
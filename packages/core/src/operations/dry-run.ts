@@ -0,0 +1,82 @@
+// src/core/operations/dry-run.ts
+// Dry-run support for write tools: report the Local API call a tool would make
+// instead of making it.
+
+import { z } from "zod";
+import type { RoamClient } from "../client.js";
+import type { CallToolResult, GetBlockResponse, GetPageResponse } from "../types.js";
+import { textResult } from "../types.js";
+
+// Shared schema field, added to every write tool's schema
+export const DryRunField = z
+  .boolean()
+  .optional()
+  .describe(
+    "If true, return the API action and args that would be sent plus a preview of the affected content, without changing anything (default: ROAM_DRY_RUN setting, otherwise false)",
+  );
+
+// What to preview: a block or page by uid, or a page by title
+export interface DryRunTarget {
+  uid?: string;
+  title?: string;
+}
+
+/**
+ * Global dry-run setting from the ROAM_DRY_RUN environment variable.
+ */
+export function isDryRunEnabledGlobally(): boolean {
+  const value = process.env.ROAM_DRY_RUN?.trim().toLowerCase();
+  return value === "1" || value === "true" || value === "yes";
+}
+
+/**
+ * Whether a write should be simulated. An explicit dryRun param wins over the global setting.
+ */
+export function isDryRun(params: { dryRun?: boolean }): boolean {
+  return params.dryRun ?? isDryRunEnabledGlobally();
+}
+
+async function fetchPreview(
+  client: RoamClient,
+  target: DryRunTarget,
+): Promise<GetBlockResponse | GetPageResponse | null> {
+  if (target.uid !== undefined) {
+    // A uid may be a block or a page — try block first
+    const block = await client.call<GetBlockResponse | undefined>("data.ai.getBlock", [
+      { uid: target.uid },
+    ]);
+    if (block.result) return block.result;
+    const page = await client.call<GetPageResponse | undefined>("data.ai.getPage", [
+      { uid: target.uid },
+    ]);
+    return page.result ?? null;
+  }
+  if (target.title !== undefined) {
+    const page = await client.call<GetPageResponse | undefined>("data.ai.getPage", [
+      { title: target.title },
+    ]);
+    return page.result ?? null;
+  }
+  return null;
+}
+
+/**
+ * Build the result for a simulated write: the exact action and args that would be
+ * passed to client.call, plus the current content of the affected block/page
+ * (null when there is nothing to preview, e.g. a page that doesn't exist yet).
+ */
+export async function dryRunResult(
+  client: RoamClient,
+  action: string,
+  args: unknown[],
+  target?: DryRunTarget,
+): Promise<CallToolResult> {
+  const preview = target ? await fetchPreview(client, target) : null;
+  return textResult({
+    dryRun: true,
+    action,
+    args,
+    preview,
+    note: "Dry run — nothing was changed. Call again without dryRun to apply.",
+  });
+}
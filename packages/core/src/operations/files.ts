@@ -4,6 +4,7 @@ import { basename, extname } from "path";
 import type { RoamClient } from "../client.js";
 import type { CallToolResult } from "../types.js";
 import { imageResult, textResult } from "../types.js";
+import { DryRunField, isDryRun, dryRunResult } from "./dry-run.js";
 
 // Schemas
 export const FileGetSchema = z.object({
@@ -32,6 +33,7 @@ export const FileUploadSchema = z.object({
 
 export const FileDeleteSchema = z.object({
   url: z.string().describe("Firebase storage URL of the file to delete"),
+  dryRun: DryRunField,
 });
 
 // Types derived from schemas
@@ -226,6 +228,10 @@ export async function deleteFile(
   client: RoamClient,
   params: FileDeleteParams,
 ): Promise<CallToolResult> {
+  if (isDryRun(params)) {
+    return dryRunResult(client, "file.delete", [{ url: params.url }]);
+  }
+
   await client.call<undefined>("file.delete", [{ url: params.url }]);
   return textResult({ deleted: true });
 }
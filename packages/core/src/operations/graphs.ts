@@ -13,6 +13,7 @@ import {
 import type { GraphConfig } from "../types.js";
 import type { AvailableGraph } from "../roam-api.js";
 import { fetchAvailableGraphs, requestToken, sleep, openRoamApp, slugify } from "../roam-api.js";
+import { getApiHost, isLocalHost, localApiUrl } from "../transport.js";
 
 // ============================================================================
 // Schemas
@@ -110,6 +111,13 @@ async function fetchAvailableGraphsWithRetry(port: number): Promise<AvailableGra
     if (!isConnectionError) {
       throw error;
     }
+    if (!isLocalHost(getApiHost())) {
+      // Roam on another machine (ROAM_API_HOST) can't be launched from here
+      throw new RoamError(
+        `Could not connect to Roam Desktop at ${localApiUrl(port)}. Make sure it is running there and the Local API is reachable.`,
+        ErrorCodes.CONNECTION_FAILED,
+      );
+    }
 
     await openRoamApp();
     await sleep(5000);
@@ -1,7 +1,12 @@
 import { z } from "zod";
 import type { RoamClient } from "../client.js";
 import type { CallToolResult, GetPageResponse } from "../types.js";
-import { textResult } from "../types.js";
+import { textResult, RoamError, ErrorCodes } from "../types.js";
+import { DryRunField, isDryRun, dryRunResult } from "./dry-run.js";
+import type { GetBacklinksResponse } from "./blocks.js";
+import { updateBlock, moveBlock } from "./blocks.js";
+import { rewritePageReferences } from "../markdown.js";
+import { FormatField, fetchTrees, fetchPageTreeByTitle } from "./tree.js";
 
 // Schemas
 export const CreatePageSchema = z.object({
@@ -17,6 +22,7 @@ export const CreatePageSchema = z.object({
     .enum(["document", "bullet", "numbered"])
     .optional()
     .describe("How children are displayed (document, bullet, or numbered)"),
+  dryRun: DryRunField,
 });
 
 export const GetPageSchema = z.object({
@@ -26,10 +32,12 @@ export const GetPageSchema = z.object({
     .number()
     .optional()
     .describe("Max depth of children to include in markdown (omit for full tree)"),
+  format: FormatField,
 });
 
 export const DeletePageSchema = z.object({
   uid: z.string().describe("Page UID to delete"),
+  dryRun: DryRunField,
 });
 
 export const UpdatePageSchema = z.object({
@@ -45,6 +53,32 @@ export const UpdatePageSchema = z.object({
     .describe(
       "If true, merge with existing page when renaming to a title that already exists (default: false)",
     ),
+  dryRun: DryRunField,
+});
+
+export const RenamePageSchema = z.object({
+  uid: z.string().optional().describe("UID of the page to rename (alternative to title)"),
+  title: z.string().optional().describe("Current page title (alternative to uid)"),
+  newTitle: z.string().min(1).describe("New page title"),
+  rewriteReferences: z
+    .boolean()
+    .optional()
+    .describe(
+      "Rewrite [[Old]], #[[Old]], #Old and Old:: in blocks that reference the page (default: true)",
+    ),
+  merge: z
+    .boolean()
+    .optional()
+    .describe(
+      "If a page titled newTitle already exists, merge into it instead of refusing (default: false)",
+    ),
+  dryRun: DryRunField,
+});
+
+export const MergePagesSchema = z.object({
+  sourceUid: z.string().describe("UID of the page to merge away (deleted once emptied)"),
+  targetUid: z.string().describe("UID of the page that receives the source page's blocks"),
+  dryRun: DryRunField,
 });
 
 export const GetGuidelinesSchema = z.object({});
@@ -54,6 +88,8 @@ export type CreatePageParams = z.infer<typeof CreatePageSchema>;
 export type GetPageParams = z.infer<typeof GetPageSchema>;
 export type DeletePageParams = z.infer<typeof DeletePageSchema>;
 export type UpdatePageParams = z.infer<typeof UpdatePageSchema>;
+export type RenamePageParams = z.infer<typeof RenamePageSchema>;
+export type MergePagesParams = z.infer<typeof MergePagesSchema>;
 
 export async function createPage(
   client: RoamClient,
@@ -63,13 +99,25 @@ export async function createPage(
   if (params.uid !== undefined) page.uid = params.uid;
   if (params.childrenViewType !== undefined) page["children-view-type"] = params.childrenViewType;
 
-  const response = await client.call<{ uid: string }>("data.page.fromMarkdown", [
-    { page, "markdown-string": params.markdown },
-  ]);
+  const args = [{ page, "markdown-string": params.markdown }];
+  if (isDryRun(params)) {
+    // Preview shows any existing page with this title (null means it will be new)
+    return dryRunResult(client, "data.page.fromMarkdown", args, { title: params.title });
+  }
+
+  const response = await client.call<{ uid: string }>("data.page.fromMarkdown", args);
   return textResult(response.result ?? { uid: "" });
 }
 
 export async function getPage(client: RoamClient, params: GetPageParams): Promise<CallToolResult> {
+  if (params.format === "tree") {
+    if (params.uid === undefined) {
+      return textResult(await fetchPageTreeByTitle(client, params.title ?? "", params.maxDepth));
+    }
+    const tree = (await fetchTrees(client, [params.uid], params.maxDepth)).get(params.uid);
+    return textResult(tree && "title" in tree ? tree : null);
+  }
+
   const apiParams: Record<string, unknown> = params.uid
     ? { uid: params.uid }
     : { title: params.title };
@@ -83,7 +131,12 @@ export async function deletePage(
   client: RoamClient,
   params: DeletePageParams,
 ): Promise<CallToolResult> {
-  await client.call("data.page.delete", [{ page: { uid: params.uid } }]);
+  const args = [{ page: { uid: params.uid } }];
+  if (isDryRun(params)) {
+    return dryRunResult(client, "data.page.delete", args, { uid: params.uid });
+  }
+
+  await client.call("data.page.delete", args);
   return textResult({ success: true });
 }
 
@@ -98,10 +151,281 @@ export async function updatePage(
   const apiParams: Record<string, unknown> = { page };
   if (params.mergePages !== undefined) apiParams["merge-pages"] = params.mergePages;
 
+  if (isDryRun(params)) {
+    return dryRunResult(client, "data.page.update", [apiParams], { uid: params.uid });
+  }
+
   await client.call("data.page.update", [apiParams]);
   return textResult({ success: true });
 }
 
+const PAGE_BY_UID_QUERY = `[:find (pull ?p [:block/uid :node/title :children/view-type])
+ :in $ ?uid
+ :where [?p :block/uid ?uid] [?p :node/title ?title]]`;
+
+const PAGE_BY_TITLE_QUERY = `[:find (pull ?p [:block/uid :node/title :children/view-type])
+ :in $ ?title
+ :where [?p :node/title ?title]]`;
+
+const TOP_LEVEL_BLOCKS_QUERY = `[:find ?uid ?order ?s
+ :in $ ?page-uid
+ :where [?p :block/uid ?page-uid]
+        [?p :block/children ?b]
+        [?b :block/uid ?uid]
+        [?b :block/order ?order]
+        [?b :block/string ?s]]`;
+
+const BLOCK_STRINGS_QUERY = `[:find ?uid ?s
+ :in $ [?uid ...]
+ :where [?b :block/uid ?uid] [?b :block/string ?s]]`;
+
+const BACKLINKS_PAGE_SIZE = 100;
+
+interface PageInfo {
+  uid: string;
+  title: string;
+  childrenViewType?: "document" | "bullet" | "numbered";
+}
+
+async function findPage(
+  client: RoamClient,
+  by: { uid?: string; title?: string },
+): Promise<PageInfo | null> {
+  const response = await client.call<Array<[Record<string, unknown>]>>(
+    "q",
+    by.uid !== undefined ? [PAGE_BY_UID_QUERY, by.uid] : [PAGE_BY_TITLE_QUERY, by.title],
+  );
+  const [row] = response.result ?? [];
+  if (!row) return null;
+  const [pulled] = row;
+  // Keyword values come back as ":bullet" or "bullet"
+  const viewType = pulled[":children/view-type"];
+  return {
+    uid: pulled[":block/uid"] as string,
+    title: pulled[":node/title"] as string,
+    ...(typeof viewType === "string" && {
+      childrenViewType: viewType.replace(/^:/, "") as PageInfo["childrenViewType"],
+    }),
+  };
+}
+
+// UIDs of every block that references the page (get_backlinks, all pages of results)
+async function backlinkUids(client: RoamClient, pageUid: string): Promise<string[]> {
+  const uids: string[] = [];
+  for (let offset = 0; ; offset += BACKLINKS_PAGE_SIZE) {
+    const response = await client.call<GetBacklinksResponse>("data.ai.getBacklinks", [
+      { uid: pageUid, offset, limit: BACKLINKS_PAGE_SIZE, maxDepth: 0, includePath: false },
+    ]);
+    const results = response.result?.results ?? [];
+    uids.push(...results.filter((result) => result.type !== "page").map((result) => result.uid));
+    if (
+      results.length < BACKLINKS_PAGE_SIZE ||
+      offset + results.length >= (response.result?.total ?? 0)
+    ) {
+      return uids;
+    }
+  }
+}
+
+/**
+ * Blocks among uids whose string still mentions oldTitle, with the rewritten string.
+ */
+async function referenceChanges(
+  client: RoamClient,
+  uids: string[],
+  oldTitle: string,
+  newTitle: string,
+): Promise<Array<{ uid: string; before: string; after: string }>> {
+  if (uids.length === 0) return [];
+  const response = await client.call<Array<[string, string]>>("q", [BLOCK_STRINGS_QUERY, uids]);
+  return (response.result ?? [])
+    .map(([uid, before]) => ({
+      uid,
+      before,
+      after: rewritePageReferences(before, oldTitle, newTitle),
+    }))
+    .filter((change) => change.after !== change.before);
+}
+
+export async function renamePage(
+  client: RoamClient,
+  params: RenamePageParams,
+): Promise<CallToolResult> {
+  if ((params.uid === undefined) === (params.title === undefined)) {
+    throw new RoamError("Provide exactly one of 'uid' or 'title'", ErrorCodes.VALIDATION_ERROR);
+  }
+  const page = await findPage(client, params);
+  if (!page) {
+    throw new RoamError(
+      `Page not found: ${params.uid ?? `"${params.title}"`}`,
+      ErrorCodes.VALIDATION_ERROR,
+    );
+  }
+  if (page.title === params.newTitle) {
+    return textResult({
+      uid: page.uid,
+      title: page.title,
+      message: "Page already has this title.",
+    });
+  }
+
+  const existing = await findPage(client, { title: params.newTitle });
+  if (existing && !params.merge) {
+    throw new RoamError(
+      `A page titled "${params.newTitle}" already exists. Pass merge to merge "${page.title}" into it.`,
+      ErrorCodes.VALIDATION_ERROR,
+      { existingUid: existing.uid },
+    );
+  }
+
+  // Collect referencing blocks before the rename: afterwards the old title no longer resolves
+  const rewrite = params.rewriteReferences ?? true;
+  const referencing = rewrite ? await backlinkUids(client, page.uid) : [];
+
+  const args = [
+    { page: { uid: page.uid, title: params.newTitle }, "merge-pages": Boolean(existing) },
+  ];
+  if (isDryRun(params)) {
+    return textResult({
+      dryRun: true,
+      action: "data.page.update",
+      args,
+      from: page.title,
+      to: params.newTitle,
+      merged: Boolean(existing),
+      references: await referenceChanges(client, referencing, page.title, params.newTitle),
+      note: "Dry run — nothing was changed. Call again without dryRun to apply.",
+    });
+  }
+
+  await client.call("data.page.update", args);
+
+  // Roam may already have updated some strings itself; only rewrite what still mentions the old title
+  const changes = await referenceChanges(client, referencing, page.title, params.newTitle);
+  const changedBlocks: Array<{ uid: string; before: string; after: string }> = [];
+  for (const change of changes) {
+    try {
+      await updateBlock(client, { uid: change.uid, string: change.after, dryRun: false });
+    } catch (error) {
+      return {
+        ...textResult({
+          uid: existing?.uid ?? page.uid,
+          from: page.title,
+          to: params.newTitle,
+          merged: Boolean(existing),
+          changedBlocks,
+          error: {
+            uid: change.uid,
+            message: error instanceof Error ? error.message : String(error),
+          },
+          note: "The page was renamed, but rewriting references stopped at the first failure.",
+        }),
+        isError: true,
+      };
+    }
+    changedBlocks.push(change);
+  }
+
+  return textResult({
+    uid: existing?.uid ?? page.uid,
+    from: page.title,
+    to: params.newTitle,
+    merged: Boolean(existing),
+    changedBlocks,
+  });
+}
+
+export async function mergePages(
+  client: RoamClient,
+  params: MergePagesParams,
+): Promise<CallToolResult> {
+  if (params.sourceUid === params.targetUid) {
+    throw new RoamError("Source and target must be different pages", ErrorCodes.VALIDATION_ERROR);
+  }
+  const source = await findPage(client, { uid: params.sourceUid });
+  const target = await findPage(client, { uid: params.targetUid });
+  if (!source) {
+    throw new RoamError(`Source page not found: ${params.sourceUid}`, ErrorCodes.VALIDATION_ERROR);
+  }
+  if (!target) {
+    throw new RoamError(`Target page not found: ${params.targetUid}`, ErrorCodes.VALIDATION_ERROR);
+  }
+
+  const blocksResponse = await client.call<Array<[string, number, string]>>("q", [
+    TOP_LEVEL_BLOCKS_QUERY,
+    source.uid,
+  ]);
+  const blocks = (blocksResponse.result ?? [])
+    .sort((a, b) => a[1] - b[1])
+    .map(([uid, , string]) => ({ uid, string }));
+  // An explicit view type on the target wins; otherwise it takes the source's
+  const childrenViewType =
+    source.childrenViewType && !target.childrenViewType ? source.childrenViewType : undefined;
+  const references = await referenceChanges(
+    client,
+    await backlinkUids(client, source.uid),
+    source.title,
+    target.title,
+  );
+
+  const summary = {
+    source: { uid: source.uid, title: source.title },
+    target: { uid: target.uid, title: target.title },
+  };
+  if (isDryRun(params)) {
+    return textResult({
+      dryRun: true,
+      ...summary,
+      moves: blocks,
+      ...(childrenViewType && { childrenViewType }),
+      references,
+      deletes: source.uid,
+      note: "Dry run — nothing was changed. Call again without dryRun to apply.",
+    });
+  }
+
+  const moved: string[] = [];
+  const changedBlocks: typeof references = [];
+  try {
+    for (const block of blocks) {
+      await moveBlock(client, {
+        uid: block.uid,
+        parentUid: target.uid,
+        order: "last",
+        dryRun: false,
+      });
+      moved.push(block.uid);
+    }
+    if (childrenViewType) {
+      await updatePage(client, { uid: target.uid, childrenViewType, dryRun: false });
+    }
+    for (const change of references) {
+      await updateBlock(client, { uid: change.uid, string: change.after, dryRun: false });
+      changedBlocks.push(change);
+    }
+    await deletePage(client, { uid: source.uid, dryRun: false });
+  } catch (error) {
+    return {
+      ...textResult({
+        ...summary,
+        moved,
+        changedBlocks,
+        error: error instanceof Error ? error.message : String(error),
+        note: "Stopped at the first failure; the source page was not deleted. Completed steps can be reverted with undo_last_change.",
+      }),
+      isError: true,
+    };
+  }
+
+  return textResult({
+    ...summary,
+    moved,
+    ...(childrenViewType && { childrenViewType }),
+    changedBlocks,
+    deletedSource: true,
+  });
+}
+
 export async function getGuidelines(client: RoamClient): Promise<CallToolResult> {
   const response = await client.call<{
     queriedAt?: string;
@@ -0,0 +1,235 @@
+import { z } from "zod";
+import type { RoamClient } from "../client.js";
+import type { CallToolResult, QueryResponse } from "../types.js";
+import { textResult, RoamError, ErrorCodes } from "../types.js";
+import { DryRunField, isDryRun } from "./dry-run.js";
+import { updateBlock } from "./blocks.js";
+import { escapeRegExp } from "../markdown.js";
+
+const DEFAULT_MAX_CHANGES = 100;
+
+// Roam query results are paginated; fetch this many per request when scoping by query
+const QUERY_PAGE_SIZE = 100;
+const MAX_QUERY_RESULTS = 5000;
+
+export const FindReplaceSchema = z.object({
+  find: z.string().min(1).describe("Text to find (literal unless regex is true)"),
+  replace: z
+    .string()
+    .describe(
+      "Replacement text. With regex, $1, $2... and $<name> insert capture groups and $& the whole match",
+    ),
+  regex: z
+    .boolean()
+    .optional()
+    .describe("Treat find as a JavaScript regular expression (default: false)"),
+  caseSensitive: z.boolean().optional().describe("Match case (default: true)"),
+  pageTitle: z.string().optional().describe("Only change blocks on this page"),
+  query: z
+    .string()
+    .optional()
+    .describe(
+      'Only change blocks matched by this Roam query (e.g. "{and: [[Project]] [[TODO]]}"), plus blocks on pages it matches',
+    ),
+  maxChanges: z.coerce
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe(
+      `Refuse to apply if more than this many blocks would change (default: ${DEFAULT_MAX_CHANGES})`,
+    ),
+  dryRun: DryRunField,
+});
+
+export type FindReplaceParams = z.infer<typeof FindReplaceSchema>;
+
+interface BlockChange {
+  uid: string;
+  page: string;
+  before: string;
+  after: string;
+  diff: string; // before, with each change shown as [-old-]{+new+}
+}
+
+const MATCHING_BLOCKS_QUERY = `[:find ?uid ?s ?title
+ :in $ ?pattern
+ :where [?b :block/string ?s]
+        [(re-pattern ?pattern) ?re]
+        [(re-find ?re ?s)]
+        [?b :block/uid ?uid]
+        [?b :block/page ?p]
+        [?p :node/title ?title]]`;
+
+const MATCHING_BLOCKS_ON_PAGE_QUERY = `[:find ?uid ?s ?title
+ :in $ ?pattern ?title
+ :where [?p :node/title ?title]
+        [?b :block/page ?p]
+        [?b :block/string ?s]
+        [(re-pattern ?pattern) ?re]
+        [(re-find ?re ?s)]
+        [?b :block/uid ?uid]]`;
+
+const BLOCKS_ON_PAGES_QUERY = `[:find ?uid
+ :in $ [?page-uid ...]
+ :where [?p :block/uid ?page-uid]
+        [?b :block/page ?p]
+        [?b :block/uid ?uid]]`;
+
+// Expand $$, $&, $1..$99 and $<name> in a regex replacement, as String.prototype.replace does
+function expandReplacement(template: string, match: RegExpMatchArray): string {
+  return template.replace(/\$(\$|&|\d{1,2}|<([^>]*)>)/g, (token, spec: string, name?: string) => {
+    if (spec === "$") return "$";
+    if (spec === "&") return match[0];
+    if (name !== undefined) return match.groups ? (match.groups[name] ?? "") : token;
+    const index = Number(spec);
+    return index >= 1 && index < match.length ? (match[index] ?? "") : token;
+  });
+}
+
+function buildPattern(params: FindReplaceParams): RegExp {
+  const flags = params.caseSensitive === false ? "gi" : "g";
+  try {
+    return new RegExp(params.regex ? params.find : escapeRegExp(params.find), flags);
+  } catch (error) {
+    throw new RoamError(
+      `Invalid regular expression: ${(error as Error).message}`,
+      ErrorCodes.VALIDATION_ERROR,
+    );
+  }
+}
+
+// Blocks (and blocks on pages) returned by a Roam query. Refuses a query with MAX_QUERY_RESULTS
+// or more results, since a partial scope would leave matches silently unchanged.
+async function queryScope(client: RoamClient, query: string): Promise<Set<string>> {
+  const blockUids = new Set<string>();
+  const pageUids: string[] = [];
+  for (let offset = 0; ; offset += QUERY_PAGE_SIZE) {
+    if (offset >= MAX_QUERY_RESULTS) {
+      throw new RoamError(
+        `Query matches ${MAX_QUERY_RESULTS} or more blocks and pages. Nothing was changed.`,
+        ErrorCodes.VALIDATION_ERROR,
+        {
+          maxQueryResults: MAX_QUERY_RESULTS,
+          instruction: "Narrow the query, or scope by pageTitle instead.",
+        },
+      );
+    }
+    const response = await client.call<QueryResponse>("data.ai.roamQuery", [
+      { query, offset, limit: QUERY_PAGE_SIZE, maxDepth: 0, includePath: false },
+    ]);
+    const results = response.result?.results ?? [];
+    for (const result of results) {
+      if (result.type === "page") pageUids.push(result.uid);
+      else blockUids.add(result.uid);
+    }
+    if (results.length < QUERY_PAGE_SIZE) break;
+  }
+  if (pageUids.length > 0) {
+    const response = await client.call<Array<[string]>>("q", [BLOCKS_ON_PAGES_QUERY, pageUids]);
+    for (const [uid] of response.result ?? []) blockUids.add(uid);
+  }
+  return blockUids;
+}
+
+function computeChange(
+  uid: string,
+  page: string,
+  before: string,
+  pattern: RegExp,
+  params: FindReplaceParams,
+): BlockChange | null {
+  let after = "";
+  let diff = "";
+  let last = 0;
+  let changed = false;
+  for (const match of before.matchAll(pattern)) {
+    const index = match.index ?? 0;
+    const replacement = params.regex ? expandReplacement(params.replace, match) : params.replace;
+    if (match[0] === replacement) continue;
+    const unchanged = before.slice(last, index);
+    after += unchanged + replacement;
+    diff += `${unchanged}[-${match[0]}-]{+${replacement}+}`;
+    last = index + match[0].length;
+    changed = true;
+  }
+  if (!changed) return null;
+  return { uid, page, before, after: after + before.slice(last), diff: diff + before.slice(last) };
+}
+
+export async function findReplace(
+  client: RoamClient,
+  params: FindReplaceParams,
+): Promise<CallToolResult> {
+  const pattern = buildPattern(params);
+  const maxChanges = params.maxChanges ?? DEFAULT_MAX_CHANGES;
+
+  // Narrow candidates in the graph (ClojureScript re-pattern understands a leading (?i))
+  const datalogPattern = (params.caseSensitive === false ? "(?i)" : "") + pattern.source;
+  const response = await client.call<Array<[string, string, string]>>(
+    "q",
+    params.pageTitle !== undefined
+      ? [MATCHING_BLOCKS_ON_PAGE_QUERY, datalogPattern, params.pageTitle]
+      : [MATCHING_BLOCKS_QUERY, datalogPattern],
+  );
+  let candidates = response.result ?? [];
+  if (params.query !== undefined) {
+    const scope = await queryScope(client, params.query);
+    candidates = candidates.filter(([uid]) => scope.has(uid));
+  }
+
+  const changes = candidates
+    .map(([uid, string, page]) => computeChange(uid, page, string, pattern, params))
+    .filter((change): change is BlockChange => change !== null)
+    .sort((a, b) => a.page.localeCompare(b.page) || a.uid.localeCompare(b.uid));
+
+  const overLimit = changes.length > maxChanges;
+  if (isDryRun(params)) {
+    return textResult({
+      dryRun: true,
+      matches: changes.length,
+      maxChanges,
+      ...(overLimit && {
+        warning: `${changes.length} blocks would change, more than maxChanges (${maxChanges}). Narrow with pageTitle/query or raise maxChanges to apply.`,
+      }),
+      changes: changes.map(({ uid, page, diff }) => ({ uid, page, diff })),
+      note: "Dry run — nothing was changed. Call again without dryRun to apply.",
+    });
+  }
+
+  if (overLimit) {
+    throw new RoamError(
+      `${changes.length} blocks would change, more than maxChanges (${maxChanges}). Nothing was changed.`,
+      ErrorCodes.VALIDATION_ERROR,
+      {
+        matches: changes.length,
+        maxChanges,
+        instruction:
+          "Preview with dryRun, then narrow with pageTitle or query, or raise maxChanges if every change is intended.",
+      },
+    );
+  }
+
+  const applied: Array<{ uid: string; page: string; diff: string }> = [];
+  for (const change of changes) {
+    try {
+      await updateBlock(client, { uid: change.uid, string: change.after, dryRun: false });
+    } catch (error) {
+      return {
+        ...textResult({
+          changed: applied.length,
+          changes: applied,
+          error: {
+            uid: change.uid,
+            message: error instanceof Error ? error.message : String(error),
+          },
+          note: "Stopped at the first failure. Changes already applied can be reverted with undo_last_change.",
+        }),
+        isError: true,
+      };
+    }
+    applied.push({ uid: change.uid, page: change.page, diff: change.diff });
+  }
+
+  return textResult({ changed: applied.length, changes: applied });
+}
@@ -7,6 +7,7 @@ import type {
   CallToolResult,
 } from "../types.js";
 import { textResult } from "../types.js";
+import { FormatField, fetchTrees } from "./tree.js";
 
 // Schemas
 export const SearchSchema = z.object({
@@ -29,6 +30,7 @@ export const SearchSchema = z.object({
     .number()
     .optional()
     .describe("Max depth of children to include in markdown (default: 0)"),
+  format: FormatField,
 });
 
 export const SearchTemplatesSchema = z.object({
@@ -57,7 +59,24 @@ export async function search(client: RoamClient, params: SearchParams): Promise<
   const response = await client.call<SearchResponse | SearchSuggestionsResponse>("data.ai.search", [
     apiParams,
   ]);
-  return textResult(response.result ?? { total: 0, results: [] });
+  const result = response.result ?? { total: 0, results: [] };
+
+  // Tree format replaces each result's markdown with its block/page tree (suggestions are unchanged)
+  if (params.format === "tree" && "results" in result) {
+    const trees = await fetchTrees(
+      client,
+      result.results.map((r) => r.uid),
+      params.maxDepth ?? 0,
+    );
+    return textResult({
+      ...result,
+      results: result.results.map(({ markdown: _markdown, ...rest }) => ({
+        ...rest,
+        tree: trees.get(rest.uid) ?? null,
+      })),
+    });
+  }
+  return textResult(result);
 }
 
 export async function searchTemplates(
@@ -0,0 +1,284 @@
+import { z } from "zod";
+import type { RoamClient } from "../client.js";
+import type { CallToolResult } from "../types.js";
+import { textResult, RoamError, ErrorCodes } from "../types.js";
+import { DryRunField, isDryRun } from "./dry-run.js";
+import { updateBlock } from "./blocks.js";
+import { parseAttributeBlock, parseAttributeValue } from "./attributes.js";
+import { parseDailyNoteTitle, toIsoDate } from "../dates.js";
+import { DateInput, resolveDateParam } from "./daily-notes.js";
+
+// Schemas
+export const ListTasksSchema = z.object({
+  status: z
+    .enum(["todo", "done", "all"])
+    .optional()
+    .describe("Which tasks to list (default: todo)"),
+  pageTitle: z.string().optional().describe("Only tasks on this page"),
+  tag: z.string().optional().describe("Only tasks that reference this page (e.g. a project tag)"),
+  assignee: z
+    .string()
+    .optional()
+    .describe('Only tasks that reference this person\'s page (e.g. "Alice" for [[Alice]])'),
+  dueFrom: DateInput.optional().describe(
+    'Only tasks due on or after this date (YYYY-MM-DD, or e.g. "today", "next monday")',
+  ),
+  dueTo: DateInput.optional().describe(
+    'Only tasks due on or before this date (YYYY-MM-DD, or e.g. "today", "next monday")',
+  ),
+  dueAttribute: z
+    .string()
+    .optional()
+    .describe('Attribute holding the due date, as a "Due:: [[date]]" child block (default: "Due")'),
+  dailyNoteFrom: DateInput.optional().describe(
+    'Only tasks on daily note pages on or after this date (YYYY-MM-DD, or e.g. "7 days ago")',
+  ),
+  dailyNoteTo: DateInput.optional().describe(
+    'Only tasks on daily note pages on or before this date (YYYY-MM-DD, or e.g. "today")',
+  ),
+  offset: z.coerce.number().optional().describe("Skip first N results (default: 0)"),
+  limit: z.coerce.number().optional().describe("Max results to return (default: 50)"),
+});
+
+export const SetTaskStatusSchema = z.object({
+  uid: z.string().describe("Block UID"),
+  status: z
+    .enum(["todo", "done", "none"])
+    .describe("New status: todo ({{[[TODO]]}}), done ({{[[DONE]]}}) or none (remove the marker)"),
+  dryRun: DryRunField,
+});
+
+// Types derived from schemas
+export type ListTasksParams = z.infer<typeof ListTasksSchema>;
+export type SetTaskStatusParams = z.infer<typeof SetTaskStatusSchema>;
+
+export interface Task {
+  uid: string;
+  status: "todo" | "done";
+  string: string;
+  page: string;
+  path: string; // Breadcrumb path as string (e.g., "Page > Parent > ...")
+  due?: string; // YYYY-MM-DD
+}
+
+// {{[[TODO]]}} and the older {{TODO}} form
+const TASK_MARKER = /\{\{(?:\[\[)?(TODO|DONE)(?:\]\])?\}\}/;
+
+const MARKER_PATTERNS = {
+  todo: "\\{\\{(?:\\[\\[)?TODO(?:\\]\\])?\\}\\}",
+  done: "\\{\\{(?:\\[\\[)?DONE(?:\\]\\])?\\}\\}",
+  all: "\\{\\{(?:\\[\\[)?(?:TODO|DONE)(?:\\]\\])?\\}\\}",
+} as const;
+
+// Daily note refs in a task string: [[October 19th, 2026]]
+const PAGE_REF = /\[\[([^[\]]+)\]\]/g;
+
+const CHILD_STRINGS_QUERY = `[:find ?parent-uid ?s
+ :in $ [?parent-uid ...] ?prefix
+ :where [?b :block/uid ?parent-uid]
+        [?b :block/children ?c]
+        [?c :block/string ?s]
+        [(clojure.string/starts-with? ?s ?prefix)]]`;
+
+const ANCESTORS_QUERY = `[:find ?uid (pull ?a [:node/title :block/string {:block/parents [:block/uid]}])
+ :in $ [?uid ...]
+ :where [?b :block/uid ?uid] [?b :block/parents ?a]]`;
+
+const BLOCK_STRING_QUERY = `[:find ?s
+ :in $ ?uid
+ :where [?b :block/uid ?uid] [?b :block/string ?s]]`;
+
+// Datalog for task blocks, with a clause per filter that can be expressed as refs/titles
+function buildTaskQuery(params: ListTasksParams): { query: string; inputs: unknown[] } {
+  const inputs: string[] = ["?pattern"];
+  const values: unknown[] = [MARKER_PATTERNS[params.status ?? "todo"]];
+  const clauses = [
+    "[?b :block/string ?s]",
+    "[(re-pattern ?pattern) ?re]",
+    "[(re-find ?re ?s)]",
+    "[?b :block/uid ?uid]",
+    "[?b :block/page ?p]",
+    "[?p :node/title ?page]",
+    "[(get-else $ ?b :edit/time 0) ?edited]",
+  ];
+  if (params.pageTitle !== undefined) {
+    inputs.push("?page");
+    values.push(params.pageTitle);
+  }
+  if (params.tag !== undefined) {
+    inputs.push("?tag-title");
+    values.push(params.tag);
+    clauses.push("[?tag :node/title ?tag-title]", "[?b :block/refs ?tag]");
+  }
+  if (params.assignee !== undefined) {
+    inputs.push("?assignee-title");
+    values.push(params.assignee);
+    clauses.push("[?assignee :node/title ?assignee-title]", "[?b :block/refs ?assignee]");
+  }
+  const query = `[:find ?uid ?s ?page ?edited
+ :in $ ${inputs.join(" ")}
+ :where ${clauses.join("\n        ")}]`;
+  return { query, inputs: values };
+}
+
+// Due date from a "Due:: [[date]]" child, else the first daily note ref in the task string
+async function findDueDates(
+  client: RoamClient,
+  tasks: Array<{ uid: string; string: string }>,
+  attribute: string,
+): Promise<Map<string, string>> {
+  const due = new Map<string, string>();
+  for (const task of tasks) {
+    for (const [, title] of task.string.matchAll(PAGE_REF)) {
+      const date = parseDailyNoteTitle(title);
+      if (date) {
+        due.set(task.uid, date);
+        break;
+      }
+    }
+  }
+  if (tasks.length === 0) return due;
+
+  const response = await client.call<Array<[string, string]>>("q", [
+    CHILD_STRINGS_QUERY,
+    tasks.map((task) => task.uid),
+    `${attribute}::`,
+  ]);
+  for (const [uid, string] of response.result ?? []) {
+    const parsed = parseAttributeBlock(string);
+    if (parsed?.key !== attribute) continue;
+    const value = parseAttributeValue(parsed.raw).find((v) => v.type === "date");
+    if (value?.type === "date") due.set(uid, value.date);
+  }
+  return due;
+}
+
+// Breadcrumb paths ("Page > Parent"), ordering each block's ancestors by their own depth
+async function fetchPaths(client: RoamClient, uids: string[]): Promise<Map<string, string>> {
+  const ancestors = new Map<string, Array<{ depth: number; label: string }>>();
+  if (uids.length > 0) {
+    const response = await client.call<Array<[string, Record<string, unknown>]>>("q", [
+      ANCESTORS_QUERY,
+      uids,
+    ]);
+    for (const [uid, pulled] of response.result ?? []) {
+      const list = ancestors.get(uid) ?? [];
+      list.push({
+        depth: (pulled[":block/parents"] as unknown[] | undefined)?.length ?? 0,
+        label: ((pulled[":node/title"] ?? pulled[":block/string"]) as string | undefined) ?? "",
+      });
+      ancestors.set(uid, list);
+    }
+  }
+  return new Map(
+    [...ancestors].map(([uid, list]) => [
+      uid,
+      list
+        .sort((a, b) => a.depth - b.depth)
+        .map((a) => a.label)
+        .join(" > "),
+    ]),
+  );
+}
+
+export async function listTasks(
+  client: RoamClient,
+  params: ListTasksParams,
+): Promise<CallToolResult> {
+  const isoDate = (value: string | undefined): string | undefined =>
+    value === undefined ? undefined : toIsoDate(resolveDateParam(value));
+  const dailyNoteFrom = isoDate(params.dailyNoteFrom);
+  const dailyNoteTo = isoDate(params.dailyNoteTo);
+  const dueFrom = isoDate(params.dueFrom);
+  const dueTo = isoDate(params.dueTo);
+
+  const { query, inputs } = buildTaskQuery(params);
+  const response = await client.call<Array<[string, string, string, number]>>("q", [
+    query,
+    ...inputs,
+  ]);
+  let rows = response.result ?? [];
+
+  if (dailyNoteFrom !== undefined || dailyNoteTo !== undefined) {
+    rows = rows.filter(([, , page]) => {
+      const date = parseDailyNoteTitle(page);
+      return (
+        date !== null &&
+        (dailyNoteFrom === undefined || date >= dailyNoteFrom) &&
+        (dailyNoteTo === undefined || date <= dailyNoteTo)
+      );
+    });
+  }
+
+  const due = await findDueDates(
+    client,
+    rows.map(([uid, string]) => ({ uid, string })),
+    params.dueAttribute ?? "Due",
+  );
+  if (dueFrom !== undefined || dueTo !== undefined) {
+    rows = rows.filter(([uid]) => {
+      const date = due.get(uid);
+      return (
+        date !== undefined &&
+        (dueFrom === undefined || date >= dueFrom) &&
+        (dueTo === undefined || date <= dueTo)
+      );
+    });
+  }
+
+  // Due soonest first (undated last), then most recently edited
+  rows.sort(([a, , , editedA], [b, , , editedB]) => {
+    const dueA = due.get(a) ?? "9999-99-99";
+    const dueB = due.get(b) ?? "9999-99-99";
+    return dueA !== dueB ? dueA.localeCompare(dueB) : editedB - editedA;
+  });
+
+  const offset = params.offset ?? 0;
+  const page = rows.slice(offset, offset + (params.limit ?? 50));
+  const paths = await fetchPaths(
+    client,
+    page.map(([uid]) => uid),
+  );
+  const results: Task[] = page.map(([uid, string, pageTitle]) => ({
+    uid,
+    status: TASK_MARKER.exec(string)?.[1] === "DONE" ? "done" : "todo",
+    string,
+    page: pageTitle,
+    path: paths.get(uid) ?? pageTitle,
+    ...(due.has(uid) && { due: due.get(uid) }),
+  }));
+  return textResult({ total: rows.length, results });
+}
+
+/**
+ * Set, change or remove the task marker in a block string. An existing marker is replaced
+ * in place; a new one is added at the start.
+ */
+export function withTaskStatus(text: string, status: SetTaskStatusParams["status"]): string {
+  const marker = status === "none" ? "" : `{{[[${status.toUpperCase()}]]}}`;
+  if (TASK_MARKER.test(text)) {
+    return marker
+      ? text.replace(TASK_MARKER, marker)
+      : text.replace(new RegExp(`${TASK_MARKER.source}[ \\t]?`), "");
+  }
+  return marker ? `${marker} ${text}` : text;
+}
+
+export async function setTaskStatus(
+  client: RoamClient,
+  params: SetTaskStatusParams,
+): Promise<CallToolResult> {
+  const response = await client.call<Array<[string]>>("q", [BLOCK_STRING_QUERY, params.uid]);
+  const [row] = response.result ?? [];
+  if (!row) {
+    throw new RoamError(`Block not found: ${params.uid}`, ErrorCodes.VALIDATION_ERROR);
+  }
+  const string = withTaskStatus(row[0], params.status);
+  if (string === row[0]) {
+    return textResult({ uid: params.uid, status: params.status, changed: false });
+  }
+
+  const result = await updateBlock(client, { uid: params.uid, string, dryRun: params.dryRun });
+  if (isDryRun(params)) return result;
+  return textResult({ uid: params.uid, status: params.status, changed: true, string });
+}
@@ -0,0 +1,166 @@
+import { z } from "zod";
+import type { RoamClient } from "../client.js";
+import type { CallToolResult, SearchTemplatesResponse, Template } from "../types.js";
+import { textResult, RoamError, ErrorCodes } from "../types.js";
+import { isDryRun, dryRunResult } from "./dry-run.js";
+import { CreateBlockSchema, buildBlockLocation, blockTargetPreview } from "./blocks.js";
+import { resolveDateParam } from "./daily-notes.js";
+import { stripRoamTags } from "../markdown.js";
+import { dailyNoteTitle, resolveDate } from "../dates.js";
+
+export const ApplyTemplateSchema = CreateBlockSchema.omit({ markdown: true }).extend({
+  templateName: z
+    .string()
+    .optional()
+    .describe("Template name as listed by search_templates (alternative to templateUid)"),
+  templateUid: z.string().optional().describe("UID of the template block"),
+  variables: z
+    .preprocess(
+      // CLI flags arrive as a JSON string
+      (value) => {
+        if (typeof value !== "string") return value;
+        try {
+          return JSON.parse(value);
+        } catch {
+          return value;
+        }
+      },
+      z.record(z.string()),
+    )
+    .optional()
+    .describe(
+      'Values for {{placeholder}} variables in the template, e.g. {"project": "[[Apollo]]", "owner": "Alice"}',
+    ),
+});
+
+export type ApplyTemplateParams = z.infer<typeof ApplyTemplateSchema>;
+
+// {{name}} placeholders; Roam components such as {{[[TODO]]}} or {{embed: ...}} don't match
+const PLACEHOLDER = /\{\{\s*([A-Za-z_][\w -]*?)\s*(?::\s*([^{}]+?)\s*)?\}\}/g;
+
+// Bare {{word}} components Roam renders itself
+const ROAM_COMPONENTS = new Set([
+  "TODO",
+  "DONE",
+  "table",
+  "kanban",
+  "diagram",
+  "mermaid",
+  "word-count",
+  "character-count",
+  "calc",
+  "slider",
+  "encrypt",
+  "date",
+  "orphans",
+  "roam/render",
+  "query",
+  "embed",
+]);
+
+const DATE_TOKENS: Record<string, string> = {
+  today: "today",
+  yesterday: "yesterday",
+  tomorrow: "tomorrow",
+};
+
+/**
+ * Substitute {{variable}} placeholders and date tokens ({{today}}, {{yesterday}},
+ * {{tomorrow}}, {{date: next monday}}) with daily note links, relative to baseDate.
+ * Returns the markdown and the placeholders that had no value.
+ */
+export function fillTemplate(
+  markdown: string,
+  variables: Record<string, string>,
+  baseDate: Date = new Date(),
+): { markdown: string; unresolved: string[] } {
+  const unresolved = new Set<string>();
+  const filled = markdown.replace(PLACEHOLDER, (match, name: string, argument?: string) => {
+    if (argument === undefined && Object.hasOwn(variables, name)) return variables[name];
+    const dateExpression =
+      argument === undefined
+        ? DATE_TOKENS[name.toLowerCase()]
+        : name === "date"
+          ? argument
+          : undefined;
+    if (dateExpression !== undefined) {
+      try {
+        return `[[${dailyNoteTitle(resolveDate(dateExpression, baseDate))}]]`;
+      } catch {
+        // Not a date we understand; leave it for Roam
+      }
+    }
+    if (argument === undefined && !ROAM_COMPONENTS.has(name)) unresolved.add(name);
+    return match;
+  });
+  return { markdown: filled, unresolved: [...unresolved] };
+}
+
+async function findTemplate(client: RoamClient, params: ApplyTemplateParams): Promise<Template> {
+  if ((params.templateName === undefined) === (params.templateUid === undefined)) {
+    throw new RoamError(
+      "Provide exactly one of 'templateName' or 'templateUid'",
+      ErrorCodes.VALIDATION_ERROR,
+    );
+  }
+  const response = await client.call<SearchTemplatesResponse>("data.ai.searchTemplates", [
+    { query: params.templateName },
+  ]);
+  const templates = response.result?.results ?? [];
+
+  if (params.templateUid !== undefined) {
+    const template = templates.find((t) => t.uid === params.templateUid);
+    if (!template) {
+      throw new RoamError(
+        `No template with uid ${params.templateUid}`,
+        ErrorCodes.VALIDATION_ERROR,
+      );
+    }
+    return template;
+  }
+
+  // An exact (case-insensitive) name wins; otherwise the search must be unambiguous
+  const name = params.templateName!.toLowerCase();
+  const exact = templates.filter((t) => t.name.toLowerCase() === name);
+  const candidates = exact.length > 0 ? exact : templates;
+  if (candidates.length === 1) return candidates[0];
+  throw new RoamError(
+    candidates.length === 0
+      ? `No template matches "${params.templateName}"`
+      : `"${params.templateName}" matches several templates; use templateUid`,
+    ErrorCodes.VALIDATION_ERROR,
+    { matches: candidates.map((t) => ({ name: t.name, uid: t.uid })) },
+  );
+}
+
+export async function applyTemplate(
+  client: RoamClient,
+  params: ApplyTemplateParams,
+): Promise<CallToolResult> {
+  const location = buildBlockLocation(params);
+  const template = await findTemplate(client, params);
+
+  // Date tokens are relative to the target daily note when there is one
+  const baseDate =
+    params.dailyNotePage !== undefined ? resolveDateParam(params.dailyNotePage) : new Date();
+  const { markdown, unresolved } = fillTemplate(
+    stripRoamTags(template.content),
+    params.variables ?? {},
+    baseDate,
+  );
+  if (markdown.trim() === "") {
+    throw new RoamError(`Template "${template.name}" is empty`, ErrorCodes.VALIDATION_ERROR);
+  }
+
+  const args = [{ location, "markdown-string": markdown }];
+  if (isDryRun(params)) {
+    return dryRunResult(client, "data.block.fromMarkdown", args, blockTargetPreview(params));
+  }
+
+  const response = await client.call<{ uids: string[] }>("data.block.fromMarkdown", args);
+  return textResult({
+    template: { name: template.name, uid: template.uid },
+    uids: response.result?.uids ?? [],
+    ...(unresolved.length > 0 && { unresolvedVariables: unresolved }),
+  });
+}
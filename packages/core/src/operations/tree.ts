@@ -0,0 +1,131 @@
+// src/core/operations/tree.ts
+// Structured reads: block and page trees built from datalog pulls, as an alternative to
+// the rendered markdown returned by data.ai.getPage / getBlock / search.
+
+import { z } from "zod";
+import type { RoamClient } from "../client.js";
+import type { Block, Page } from "../types.js";
+
+// Shared schema field for read tools that can return either form
+export const FormatField = z
+  .enum(["markdown", "tree"])
+  .optional()
+  .describe(
+    'Response format: "markdown" (default) for rendered markdown, or "tree" for a JSON hierarchy of blocks (uid, string, order, heading, open, text-align, children-view-type, create/edit time, author)',
+  );
+
+export type Format = z.infer<typeof FormatField>;
+
+// With maxDepth, the pull's recursion limit stops Roam from walking the rest of the subtree
+function treePattern(maxDepth?: number): string {
+  const children =
+    maxDepth === undefined
+      ? " {:block/children ...}"
+      : maxDepth > 0
+        ? ` {:block/children ${maxDepth}}`
+        : "";
+  return `[:block/uid :node/title :block/string :block/order :block/open :block/heading
+  :block/text-align :children/view-type :create/time :edit/time
+  {:create/user [:user/display-name]}${children}]`;
+}
+
+function treesQuery(maxDepth?: number): string {
+  return `[:find (pull ?e ${treePattern(maxDepth)})
+ :in $ [?uid ...]
+ :where [?e :block/uid ?uid]]`;
+}
+
+function pageTreeByTitleQuery(maxDepth?: number): string {
+  return `[:find (pull ?e ${treePattern(maxDepth)})
+ :in $ ?title
+ :where [?e :node/title ?title]]`;
+}
+
+type Pulled = Record<string, unknown>;
+
+// Keyword values (e.g. :children/view-type) come back as ":bullet" or "bullet"
+function keywordValue<T extends string>(value: unknown): T | undefined {
+  return typeof value === "string" ? (value.replace(/^:/, "") as T) : undefined;
+}
+
+// Children at depth d are kept while d <= maxDepth (the root is depth 0)
+function toChildren(pulled: Pulled, depth: number, maxDepth?: number): Block[] | undefined {
+  const children = pulled[":block/children"] as Pulled[] | undefined;
+  if (!children || children.length === 0) return undefined;
+  if (maxDepth !== undefined && depth >= maxDepth) return undefined;
+  return children
+    .map((child) => toBlock(child, depth + 1, maxDepth))
+    .sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+}
+
+function toBlock(pulled: Pulled, depth: number, maxDepth?: number): Block {
+  const author = (pulled[":create/user"] as Pulled | undefined)?.[":user/display-name"];
+  const block: Block = {
+    uid: pulled[":block/uid"] as string,
+    string: (pulled[":block/string"] as string | undefined) ?? "",
+  };
+  if (pulled[":block/order"] !== undefined) block.order = pulled[":block/order"] as number;
+  if (pulled[":block/heading"]) block.heading = pulled[":block/heading"] as number;
+  if (pulled[":block/open"] !== undefined) block.open = pulled[":block/open"] as boolean;
+  const textAlign = keywordValue<NonNullable<Block["text-align"]>>(pulled[":block/text-align"]);
+  if (textAlign) block["text-align"] = textAlign;
+  const viewType = keywordValue<NonNullable<Block["children-view-type"]>>(
+    pulled[":children/view-type"],
+  );
+  if (viewType) block["children-view-type"] = viewType;
+  if (pulled[":create/time"] !== undefined) block["create-time"] = pulled[":create/time"] as number;
+  if (pulled[":edit/time"] !== undefined) block["edit-time"] = pulled[":edit/time"] as number;
+  if (typeof author === "string") block.author = author;
+  const children = toChildren(pulled, depth, maxDepth);
+  if (children) block.children = children;
+  return block;
+}
+
+function toPage(pulled: Pulled, maxDepth?: number): Page {
+  const page: Page = {
+    uid: pulled[":block/uid"] as string,
+    title: pulled[":node/title"] as string,
+  };
+  const viewType = keywordValue<NonNullable<Page["children-view-type"]>>(
+    pulled[":children/view-type"],
+  );
+  if (viewType) page["children-view-type"] = viewType;
+  if (pulled[":create/time"] !== undefined) page["create-time"] = pulled[":create/time"] as number;
+  if (pulled[":edit/time"] !== undefined) page["edit-time"] = pulled[":edit/time"] as number;
+  const children = toChildren(pulled, 0, maxDepth);
+  if (children) page.children = children;
+  return page;
+}
+
+/**
+ * Fetch pages and blocks by uid as trees, in one query. maxDepth limits how many levels of
+ * children are included (omit for the full tree). Missing uids are absent from the map.
+ */
+export async function fetchTrees(
+  client: RoamClient,
+  uids: string[],
+  maxDepth?: number,
+): Promise<Map<string, Block | Page>> {
+  const trees = new Map<string, Block | Page>();
+  if (uids.length === 0) return trees;
+  const response = await client.call<Array<[Pulled]>>("q", [treesQuery(maxDepth), uids]);
+  for (const [pulled] of response.result ?? []) {
+    const tree =
+      pulled[":node/title"] !== undefined ? toPage(pulled, maxDepth) : toBlock(pulled, 0, maxDepth);
+    trees.set(tree.uid, tree);
+  }
+  return trees;
+}
+
+/**
+ * Fetch a page tree by title, or null if no page has this title.
+ */
+export async function fetchPageTreeByTitle(
+  client: RoamClient,
+  title: string,
+  maxDepth?: number,
+): Promise<Page | null> {
+  const response = await client.call<Array<[Pulled]>>("q", [pageTreeByTitleQuery(maxDepth), title]);
+  const [row] = response.result ?? [];
+  return row ? toPage(row[0], maxDepth) : null;
+}
@@ -0,0 +1,179 @@
+import { z } from "zod";
+import type { RoamClient } from "../client.js";
+import type { CallToolResult } from "../types.js";
+import { textResult, RoamError, ErrorCodes } from "../types.js";
+import { parseTimeFilter } from "../audit.js";
+import { extractRoamUids } from "../markdown.js";
+import type { JournalEntry, JournalStep, PendingJournalEntry } from "../journal.js";
+import { markUndone, readUndoableEntries, remapStep } from "../journal.js";
+
+export const UndoSchema = z.object({
+  count: z.coerce
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe("Number of most recent changes to undo (default: 1). Cannot be combined with since"),
+  since: z
+    .string()
+    .optional()
+    .describe(
+      "Undo every change made at or after this time: ISO date/time (e.g. '2026-03-17T09:00') or a duration like '30m', '2h'. Cannot be combined with count",
+    ),
+  dryRun: z
+    .boolean()
+    .optional()
+    .describe("If true, list the changes and the inverse API calls without applying them"),
+});
+
+export type UndoParams = z.infer<typeof UndoSchema>;
+
+interface UndoneChange {
+  id: string;
+  timestamp: string;
+  tool?: string;
+  action: string;
+  target: string;
+  warning?: string;
+}
+
+function describeTarget(entry: JournalEntry): string {
+  return entry.before.kind === "page"
+    ? `page "${entry.before.title}" (${entry.before.uid})`
+    : `block ${entry.before.uid}`;
+}
+
+function summarize(entry: JournalEntry): UndoneChange {
+  return {
+    id: entry.id,
+    timestamp: entry.timestamp,
+    tool: entry.tool,
+    action: entry.action,
+    target: describeTarget(entry),
+    ...(entry.warning && { warning: entry.warning }),
+  };
+}
+
+// Replay one inverse step. Recreated blocks get new uids; returns original uid -> new uid.
+async function replayStep(
+  client: RoamClient,
+  entry: PendingJournalEntry,
+  step: JournalStep,
+): Promise<Record<string, string>> {
+  const response = await client.call<{ uids?: string[]; uid?: string }>(step.action, step.args, {
+    journal: false,
+  });
+  const originalUids = extractRoamUids(entry.before.markdown);
+
+  let newUids: string[] = [];
+  if (step.action === "data.block.fromMarkdown") {
+    newUids = response.result?.uids ?? [];
+  } else if (step.action === "data.page.fromMarkdown") {
+    // The page keeps its uid; its children are recreated in document order
+    const page = await client.call<{ markdown: string } | undefined>("data.ai.getPage", [
+      { uid: entry.before.uid },
+    ]);
+    newUids = extractRoamUids(page.result?.markdown ?? "");
+  }
+
+  const uidMap: Record<string, string> = {};
+  originalUids.forEach((uid, i) => {
+    if (newUids[i] && newUids[i] !== uid) uidMap[uid] = newUids[i];
+  });
+  return uidMap;
+}
+
+/**
+ * Replay a pre-image's inverse steps. uidMap (original -> recreated uid) is applied to the
+ * steps and extended with any blocks they recreate, which are also returned.
+ */
+export async function replayInverse(
+  client: RoamClient,
+  entry: PendingJournalEntry,
+  uidMap: Map<string, string>,
+): Promise<Record<string, string>> {
+  if (entry.inverse.length === 0) {
+    throw new RoamError(
+      `This change can't be undone automatically. ${entry.warning ?? ""}`.trim(),
+      ErrorCodes.VALIDATION_ERROR,
+    );
+  }
+  const recreated: Record<string, string> = {};
+  // Inverse calls aren't journaled themselves, so repeated undos walk further back
+  for (const step of entry.inverse) {
+    Object.assign(recreated, await replayStep(client, entry, remapStep(step, uidMap)));
+  }
+  for (const [from, to] of Object.entries(recreated)) uidMap.set(from, to);
+  return recreated;
+}
+
+/**
+ * Replay a journal entry's inverse steps (see replayInverse) and mark it undone.
+ */
+export async function revertEntry(
+  client: RoamClient,
+  entry: JournalEntry,
+  uidMap: Map<string, string>,
+): Promise<void> {
+  await markUndone(entry.id, await replayInverse(client, entry, uidMap));
+}
+
+export async function undoLastChange(
+  client: RoamClient,
+  params: UndoParams,
+): Promise<CallToolResult> {
+  if (params.count !== undefined && params.since !== undefined) {
+    throw new RoamError("Provide 'count' or 'since', not both", ErrorCodes.VALIDATION_ERROR);
+  }
+
+  let since: Date | undefined;
+  if (params.since !== undefined) {
+    try {
+      since = parseTimeFilter(params.since);
+    } catch (error) {
+      throw new RoamError((error as Error).message, ErrorCodes.VALIDATION_ERROR);
+    }
+  }
+
+  const { name, type } = client.getGraph();
+  const { entries: undoable, uidMap } = await readUndoableEntries(name, type);
+  const selected = since
+    ? undoable.filter((entry) => new Date(entry.timestamp).getTime() >= since.getTime())
+    : undoable.slice(-(params.count ?? 1));
+  // Newest first, so each inverse sees the graph as it was right after its change
+  selected.reverse();
+
+  if (selected.length === 0) {
+    return textResult({ undone: [], message: "Nothing to undo for this graph." });
+  }
+
+  if (params.dryRun) {
+    return textResult({
+      dryRun: true,
+      changes: selected.map((entry) => ({
+        ...summarize(entry),
+        inverse: entry.inverse.map((step) => remapStep(step, uidMap)),
+      })),
+      note: "Dry run — nothing was changed. Call again without dryRun to apply.",
+    });
+  }
+
+  const undone: UndoneChange[] = [];
+  for (const entry of selected) {
+    try {
+      await revertEntry(client, entry, uidMap);
+    } catch (error) {
+      return {
+        ...textResult({
+          undone,
+          stoppedAt: summarize(entry),
+          error: error instanceof Error ? error.message : String(error),
+        }),
+        isError: true,
+      };
+    }
+    undone.push(summarize(entry));
+  }
+
+  return textResult({ undone });
+}
@@ -4,6 +4,7 @@
 
 import open from "open";
 import type { GraphType } from "./types.js";
+import { localApiUrl } from "./transport.js";
 
 // ============================================================================
 // Types
@@ -35,7 +36,7 @@ export interface TokenExchangeResponse {
 // ============================================================================
 
 export async function fetchAvailableGraphs(port: number): Promise<AvailableGraph[]> {
-  const url = `http://127.0.0.1:${port}/api/graphs/available`;
+  const url = `${localApiUrl(port)}/api/graphs/available`;
   const response = await fetch(url, {
     method: "GET",
     headers: { "Content-Type": "application/json" },
@@ -56,7 +57,7 @@ export async function requestToken(
   graphType: GraphType,
   accessLevel: string,
 ): Promise<TokenExchangeResponse> {
-  const url = `http://127.0.0.1:${port}/api/graphs/tokens/request`;
+  const url = `${localApiUrl(port)}/api/graphs/tokens/request`;
   const response = await fetch(url, {
     method: "POST",
     headers: { "Content-Type": "application/json" },
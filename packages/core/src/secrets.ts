@@ -0,0 +1,467 @@
+// src/core/secrets.ts
+// Secret stores for graph tokens. A config token can be a reference such as
+// "keychain:roam/my-graph" instead of the token itself; it is resolved when the graph is used.
+
+import { execFile } from "child_process";
+import { createCipheriv, createDecipheriv, randomBytes, scrypt } from "crypto";
+import { chmod, readFile, rename, unlink, writeFile } from "fs/promises";
+import { homedir, platform } from "os";
+import { join } from "path";
+import { RoamError, ErrorCodes } from "./types.js";
+
+const TOKEN_PREFIX = "roam-graph-local-token-";
+
+// "<scheme>:<key>", e.g. keychain:roam/my-graph
+const SECRET_REF_PATTERN = /^([a-z][a-z0-9-]*):(\S+)$/;
+
+// Keychain commands that take longer than this are treated as failed
+const KEYCHAIN_TIMEOUT_MS = 15_000;
+
+const DEFAULT_SECRETS_FILE = join(homedir(), ".roam-tools-secrets.json");
+
+export interface SecretStore {
+  readonly description: string; // Shown in messages, e.g. "macOS Keychain"
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string): Promise<void>;
+  delete(key: string): Promise<boolean>;
+}
+
+export function isSecretRef(value: string): boolean {
+  return !value.startsWith(TOKEN_PREFIX) && SECRET_REF_PATTERN.test(value);
+}
+
+function parseSecretRef(ref: string): { scheme: string; key: string } {
+  const match = SECRET_REF_PATTERN.exec(ref);
+  if (!match) {
+    throw new RoamError(`Invalid secret reference "${ref}"`, ErrorCodes.VALIDATION_ERROR);
+  }
+  return { scheme: match[1], key: match[2] };
+}
+
+function secretError(message: string): RoamError {
+  return new RoamError(message, ErrorCodes.SECRET_UNAVAILABLE);
+}
+
+// ============================================================================
+// OS keychains (via the platform's own command-line tools)
+// ============================================================================
+
+interface CommandResult {
+  code: number;
+  stdout: string;
+  stderr: string;
+}
+
+function run(
+  command: string,
+  args: string[],
+  options: { input?: string; env?: Record<string, string> } = {},
+): Promise<CommandResult> {
+  return new Promise((resolve, reject) => {
+    const child = execFile(
+      command,
+      args,
+      { timeout: KEYCHAIN_TIMEOUT_MS, env: { ...process.env, ...options.env } },
+      (error, stdout, stderr) => {
+        if (error && typeof error.code !== "number") {
+          reject(
+            secretError(
+              (error as NodeJS.ErrnoException).code === "ENOENT"
+                ? `${command} is not installed, so the OS keychain can't be used. Use an "encrypted:" token reference instead.`
+                : `${command} failed: ${error.message}`,
+            ),
+          );
+          return;
+        }
+        resolve({ code: typeof error?.code === "number" ? error.code : 0, stdout, stderr });
+      },
+    );
+    if (options.input !== undefined) child.stdin?.end(options.input);
+  });
+}
+
+// Keys are "<service>/<account>"; a key without a slash uses the "roam" service
+function splitKey(key: string): { service: string; account: string } {
+  const slash = key.indexOf("/");
+  return slash > 0
+    ? { service: key.slice(0, slash), account: key.slice(slash + 1) }
+    : { service: "roam", account: key };
+}
+
+// Double-quoted argument for a `security -i` command line
+function quoteSecurityArg(value: string): string {
+  return `"${value.replace(/["\\]/g, "\\$&")}"`;
+}
+
+class MacKeychainStore implements SecretStore {
+  readonly description = "macOS Keychain";
+
+  async get(key: string): Promise<string | null> {
+    const { service, account } = splitKey(key);
+    const result = await run("security", [
+      "find-generic-password",
+      "-s",
+      service,
+      "-a",
+      account,
+      "-w",
+    ]);
+    return result.code === 0 ? result.stdout.replace(/\n$/, "") : null;
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    const { service, account } = splitKey(key);
+    if (/[\r\n]/.test(value)) {
+      throw secretError("Could not save to the Keychain: the secret contains a line break");
+    }
+    // `security -i` reads the command from stdin, so the secret never appears in the process
+    // list (as `-w <secret>` on the command line would). -U updates an existing item.
+    const command = [
+      "add-generic-password",
+      "-U",
+      "-s",
+      quoteSecurityArg(service),
+      "-a",
+      quoteSecurityArg(account),
+      "-w",
+      quoteSecurityArg(value),
+    ].join(" ");
+    const result = await run("security", ["-i"], { input: `${command}\n` });
+    // Interactive mode can exit 0 after a failed command, so check that the item is there
+    if (result.code !== 0 || (await this.get(key)) !== value) {
+      throw secretError(
+        `Could not save to the Keychain: ${result.stderr.trim() || "the item was not stored"}`,
+      );
+    }
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const { service, account } = splitKey(key);
+    const result = await run("security", ["delete-generic-password", "-s", service, "-a", account]);
+    return result.code === 0;
+  }
+}
+
+class LibsecretStore implements SecretStore {
+  readonly description = "Secret Service (libsecret)";
+
+  async get(key: string): Promise<string | null> {
+    const { service, account } = splitKey(key);
+    const result = await run("secret-tool", ["lookup", "service", service, "account", account]);
+    return result.code === 0 && result.stdout ? result.stdout.replace(/\n$/, "") : null;
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    const { service, account } = splitKey(key);
+    // secret-tool reads the secret from stdin, so it never appears in the process list
+    const result = await run(
+      "secret-tool",
+      ["store", `--label=Roam Local API token (${key})`, "service", service, "account", account],
+      { input: value },
+    );
+    if (result.code !== 0) {
+      throw secretError(`Could not save to the Secret Service: ${result.stderr.trim()}`);
+    }
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const { service, account } = splitKey(key);
+    const result = await run("secret-tool", ["clear", "service", service, "account", account]);
+    return result.code === 0;
+  }
+}
+
+// Windows Credential Manager through the WinRT PasswordVault; names and the secret travel in
+// environment variables and stdin rather than on the command line
+const VAULT_PRELUDE =
+  "$ErrorActionPreference='Stop';" +
+  "[void][Windows.Security.Credentials.PasswordVault,Windows.Security.Credentials,ContentType=WindowsRuntime];" +
+  "$vault=New-Object Windows.Security.Credentials.PasswordVault;";
+
+class WindowsCredentialStore implements SecretStore {
+  readonly description = "Windows Credential Manager";
+
+  private powershell(script: string, key: string, input?: string): Promise<CommandResult> {
+    const { service, account } = splitKey(key);
+    return run(
+      "powershell.exe",
+      ["-NoProfile", "-NonInteractive", "-Command", VAULT_PRELUDE + script],
+      {
+        input,
+        env: { ROAM_SECRET_SERVICE: service, ROAM_SECRET_ACCOUNT: account },
+      },
+    );
+  }
+
+  async get(key: string): Promise<string | null> {
+    const result = await this.powershell(
+      "$c=$vault.Retrieve($env:ROAM_SECRET_SERVICE,$env:ROAM_SECRET_ACCOUNT);$c.RetrievePassword();[Console]::Out.Write($c.Password)",
+      key,
+    );
+    return result.code === 0 ? result.stdout : null;
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    const result = await this.powershell(
+      "$vault.Add((New-Object Windows.Security.Credentials.PasswordCredential($env:ROAM_SECRET_SERVICE,$env:ROAM_SECRET_ACCOUNT,[Console]::In.ReadToEnd())))",
+      key,
+      value,
+    );
+    if (result.code !== 0) {
+      throw secretError(`Could not save to the Credential Manager: ${result.stderr.trim()}`);
+    }
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const result = await this.powershell(
+      "$vault.Remove($vault.Retrieve($env:ROAM_SECRET_SERVICE,$env:ROAM_SECRET_ACCOUNT))",
+      key,
+    );
+    return result.code === 0;
+  }
+}
+
+function createKeychainStore(): SecretStore {
+  switch (platform()) {
+    case "darwin":
+      return new MacKeychainStore();
+    case "win32":
+      return new WindowsCredentialStore();
+    default:
+      return new LibsecretStore();
+  }
+}
+
+// ============================================================================
+// Encrypted file (AES-256-GCM, key derived from a passphrase with scrypt)
+// ============================================================================
+
+const SCRYPT_PARAMS = { N: 2 ** 15, r: 8, p: 1, maxmem: 64 * 1024 * 1024 };
+
+interface EncryptedEntry {
+  iv: string; // base64
+  tag: string; // base64
+  data: string; // base64
+}
+
+interface SecretsFile {
+  version: 1;
+  salt: string; // base64, shared by every entry
+  entries: Record<string, EncryptedEntry>;
+}
+
+export interface EncryptedFileStoreOptions {
+  path?: string; // Default: ROAM_SECRETS_FILE, else ~/.roam-tools-secrets.json
+  passphrase?: () => Promise<string>; // Default: ROAM_SECRETS_PASSPHRASE
+}
+
+/**
+ * Fallback for machines without a usable keychain. Every entry is encrypted with a key
+ * derived from one passphrase, which the MCP server reads from ROAM_SECRETS_PASSPHRASE.
+ */
+export class EncryptedFileSecretStore implements SecretStore {
+  readonly description: string;
+  private path: string;
+  private passphrase: () => Promise<string>;
+  private keys = new Map<string, Buffer>(); // Derived keys by salt
+
+  constructor(options: EncryptedFileStoreOptions = {}) {
+    this.path = options.path ?? (process.env.ROAM_SECRETS_FILE?.trim() || DEFAULT_SECRETS_FILE);
+    this.description = `encrypted file ${this.path}`;
+    this.passphrase =
+      options.passphrase ??
+      (async () => {
+        const value = process.env.ROAM_SECRETS_PASSPHRASE;
+        if (!value) {
+          throw secretError(
+            `Set ROAM_SECRETS_PASSPHRASE to unlock the encrypted token file ${this.path}.`,
+          );
+        }
+        return value;
+      });
+  }
+
+  private async readFile(): Promise<SecretsFile | null> {
+    let content: string;
+    try {
+      content = await readFile(this.path, "utf-8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw error;
+    }
+    try {
+      return JSON.parse(content) as SecretsFile;
+    } catch {
+      throw secretError(`Invalid JSON in ${this.path}.`);
+    }
+  }
+
+  private async deriveKey(salt: string): Promise<Buffer> {
+    const cached = this.keys.get(salt);
+    if (cached) return cached;
+    const passphrase = await this.passphrase();
+    const key = await new Promise<Buffer>((resolve, reject) =>
+      scrypt(passphrase, Buffer.from(salt, "base64"), 32, SCRYPT_PARAMS, (error, derived) =>
+        error ? reject(error) : resolve(derived),
+      ),
+    );
+    this.keys.set(salt, key);
+    return key;
+  }
+
+  async get(key: string): Promise<string | null> {
+    const file = await this.readFile();
+    const entry = file?.entries[key];
+    if (!file || !entry) return null;
+    const decipher = createDecipheriv(
+      "aes-256-gcm",
+      await this.deriveKey(file.salt),
+      Buffer.from(entry.iv, "base64"),
+    );
+    decipher.setAuthTag(Buffer.from(entry.tag, "base64"));
+    try {
+      return Buffer.concat([
+        decipher.update(Buffer.from(entry.data, "base64")),
+        decipher.final(),
+      ]).toString("utf-8");
+    } catch {
+      throw secretError(`Could not decrypt "${key}" in ${this.path}. Is the passphrase right?`);
+    }
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    const file = (await this.readFile()) ?? {
+      version: 1,
+      salt: randomBytes(16).toString("base64"),
+      entries: {},
+    };
+    const derived = await this.deriveKey(file.salt);
+    // Refuse to add an entry under a different passphrase than the existing ones
+    const [existing] = Object.keys(file.entries);
+    if (existing !== undefined) await this.get(existing);
+
+    const iv = randomBytes(12);
+    const cipher = createCipheriv("aes-256-gcm", derived, iv);
+    const data = Buffer.concat([cipher.update(value, "utf-8"), cipher.final()]);
+    file.entries[key] = {
+      iv: iv.toString("base64"),
+      tag: cipher.getAuthTag().toString("base64"),
+      data: data.toString("base64"),
+    };
+    await this.writeFile(file);
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const file = await this.readFile();
+    if (!file || !(key in file.entries)) return false;
+    delete file.entries[key];
+    await this.writeFile(file);
+    return true;
+  }
+
+  // Temp file + rename, so a crash or a concurrent write never leaves a truncated file
+  private async writeFile(file: SecretsFile): Promise<void> {
+    const tempPath = `${this.path}.${process.pid}.tmp`;
+    try {
+      await writeFile(tempPath, JSON.stringify(file, null, 2), { mode: 0o600 });
+      await chmod(tempPath, 0o600);
+      await rename(tempPath, this.path);
+    } catch (error) {
+      await unlink(tempPath).catch(() => {});
+      throw error;
+    }
+  }
+}
+
+// ============================================================================
+// Registry and resolution
+// ============================================================================
+
+// Stores by reference scheme; created on first use so nothing runs unless a reference does
+const storeFactories = new Map<string, () => SecretStore>([
+  ["keychain", createKeychainStore],
+  ["encrypted", () => new EncryptedFileSecretStore()],
+]);
+const stores = new Map<string, SecretStore>();
+
+/**
+ * Register (or replace) the store behind a reference scheme, e.g. a password manager
+ * for "op:" references.
+ */
+export function registerSecretStore(scheme: string, store: SecretStore): void {
+  if (!/^[a-z][a-z0-9-]*$/.test(scheme)) {
+    throw new Error(`Invalid secret scheme "${scheme}"`);
+  }
+  stores.set(scheme, store);
+}
+
+export function getSecretStore(scheme: string): SecretStore {
+  let store = stores.get(scheme);
+  if (!store) {
+    const factory = storeFactories.get(scheme);
+    if (!factory) {
+      throw new RoamError(
+        `Unknown secret store "${scheme}". Known stores: ${[...new Set([...storeFactories.keys(), ...stores.keys()])].join(", ")}`,
+        ErrorCodes.VALIDATION_ERROR,
+      );
+    }
+    store = factory();
+    stores.set(scheme, store);
+  }
+  return store;
+}
+
+/**
+ * The token for a config value: a plain token is returned as is, a reference is looked up
+ * in its store. Not cached, so a token replaced by `connect` is picked up by running servers.
+ */
+export async function resolveSecret(value: string): Promise<string> {
+  if (!isSecretRef(value)) return value;
+
+  const { scheme, key } = parseSecretRef(value);
+  const store = getSecretStore(scheme);
+  const secret = await store.get(key);
+  if (!secret) {
+    throw secretError(
+      `No secret "${key}" in the ${store.description}. Reconnect the graph, or store the token there again.`,
+    );
+  }
+  return secret;
+}
+
+/**
+ * Save a secret and return the reference to put in config.
+ */
+export async function storeSecret(scheme: string, key: string, value: string): Promise<string> {
+  const ref = `${scheme}:${key}`;
+  await getSecretStore(scheme).set(key, value);
+  return ref;
+}
+
+/**
+ * Best-effort removal of the secret behind a reference. Plain tokens are ignored.
+ */
+export async function deleteSecret(value: string): Promise<boolean> {
+  if (!isSecretRef(value)) return false;
+  const { scheme, key } = parseSecretRef(value);
+  try {
+    return await getSecretStore(scheme).delete(key);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Where new tokens go, from ROAM_SECRET_STORE ("keychain" or "encrypted"). Unset keeps them
+ * in the config file.
+ */
+export function getDefaultSecretScheme(): string | null {
+  const value = process.env.ROAM_SECRET_STORE?.trim().toLowerCase();
+  if (!value || ["off", "none", "config"].includes(value)) return null;
+  return value;
+}
+
+/** Key under which a graph's token is stored. */
+export function graphSecretKey(nickname: string): string {
+  return `roam/${nickname}`;
+}
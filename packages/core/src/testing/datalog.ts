@@ -0,0 +1,445 @@
+// src/core/testing/datalog.ts
+// A small datalog evaluator over the fake graph store. Supports the subset of
+// datascript used by roam-tools: data patterns, predicates, function bindings,
+// not/or clauses, pull expressions, and count/min/max aggregates.
+
+import type { EdnValue, EdnSymbol, EdnList } from "./edn.js";
+import { parseEdn, isSymbol, isKeyword, isList, isMap } from "./edn.js";
+
+/**
+ * Read-only view of a database the evaluator can query.
+ * Reference attributes return entity ids as values.
+ */
+export interface DatalogDb {
+  entityIds(): number[];
+  attributes(eid: number): string[];
+  values(eid: number, attr: string): unknown[];
+  isRef(attr: string): boolean;
+  isMany(attr: string): boolean;
+}
+
+type Bindings = Map<string, unknown>;
+
+export class DatalogError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DatalogError";
+  }
+}
+
+function isVariable(value: unknown): value is EdnSymbol {
+  return isSymbol(value) && value.name.startsWith("?");
+}
+
+function isBlank(value: unknown): boolean {
+  return isSymbol(value, "_");
+}
+
+// ============================================================================
+// Query parsing
+// ============================================================================
+
+type FindElement =
+  | { kind: "var"; name: string }
+  | { kind: "pull"; name: string; pattern: EdnValue }
+  | { kind: "aggregate"; fn: string; name: string };
+
+interface ParsedQuery {
+  find: FindElement[];
+  findShape: "relation" | "scalar" | "collection" | "tuple";
+  inputs: EdnValue[];
+  where: EdnValue[];
+}
+
+function parseFindElement(form: EdnValue): FindElement {
+  if (isVariable(form)) return { kind: "var", name: form.name };
+  if (isList(form) && isSymbol(form.items[0])) {
+    const fn = (form.items[0] as EdnSymbol).name;
+    const target = form.items[1];
+    if (!isVariable(target)) throw new DatalogError(`Invalid :find element (${fn} ...)`);
+    if (fn === "pull") return { kind: "pull", name: target.name, pattern: form.items[2] };
+    if (fn === "count" || fn === "count-distinct" || fn === "min" || fn === "max") {
+      return { kind: "aggregate", fn, name: target.name };
+    }
+    throw new DatalogError(`Unsupported :find function "${fn}"`);
+  }
+  throw new DatalogError("Invalid :find element");
+}
+
+function parseQuery(source: string): ParsedQuery {
+  const form = parseEdn(source);
+  if (!Array.isArray(form)) throw new DatalogError("Query must be a vector");
+
+  const sections = new Map<string, EdnValue[]>();
+  let current: EdnValue[] | undefined;
+  for (const item of form) {
+    if (isKeyword(item)) {
+      current = [];
+      sections.set(item.name, current);
+    } else if (current) {
+      current.push(item);
+    } else {
+      throw new DatalogError("Query must start with :find");
+    }
+  }
+
+  const findForms = sections.get(":find");
+  if (!findForms || findForms.length === 0) throw new DatalogError("Query is missing :find");
+
+  let findShape: ParsedQuery["findShape"] = "relation";
+  let elements = findForms;
+  if (elements.length === 2 && isSymbol(elements[1], ".")) {
+    findShape = "scalar";
+    elements = [elements[0]];
+  } else if (elements.length === 1 && Array.isArray(elements[0])) {
+    const inner = elements[0] as EdnValue[];
+    if (inner.length === 2 && isSymbol(inner[1], "...")) {
+      findShape = "collection";
+      elements = [inner[0]];
+    } else {
+      findShape = "tuple";
+      elements = inner;
+    }
+  }
+
+  return {
+    find: elements.map(parseFindElement),
+    findShape,
+    inputs: sections.get(":in") ?? [{ type: "symbol", name: "$" }],
+    where: sections.get(":where") ?? [],
+  };
+}
+
+// ============================================================================
+// Clause evaluation
+// ============================================================================
+
+function resolveArg(arg: EdnValue, bindings: Bindings): unknown {
+  if (isVariable(arg)) {
+    if (!bindings.has(arg.name)) {
+      throw new DatalogError(`Insufficient bindings: ${arg.name} is not bound`);
+    }
+    return bindings.get(arg.name);
+  }
+  if (isKeyword(arg)) return arg.name;
+  if (isSymbol(arg, "$")) return "$";
+  return arg;
+}
+
+function compare(a: unknown, b: unknown): number {
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  return String(a).localeCompare(String(b));
+}
+
+// Like ClojureScript's re-pattern, a leading (?i) / (?m) / (?s) group becomes regex flags
+function toRegExp(value: unknown): RegExp {
+  if (value instanceof RegExp) return value;
+  const source = String(value);
+  const flags = /^\(\?([ims]+)\)/.exec(source);
+  return flags ? new RegExp(source.slice(flags[0].length), flags[1]) : new RegExp(source);
+}
+
+function callFunction(db: DatalogDb, fn: string, args: unknown[]): unknown {
+  switch (fn) {
+    case "=":
+      return args.every((a) => a === args[0]);
+    case "not=":
+    case "!=":
+      return !args.every((a) => a === args[0]);
+    case "<":
+      return compare(args[0], args[1]) < 0;
+    case ">":
+      return compare(args[0], args[1]) > 0;
+    case "<=":
+      return compare(args[0], args[1]) <= 0;
+    case ">=":
+      return compare(args[0], args[1]) >= 0;
+    case "clojure.string/includes?":
+      return typeof args[0] === "string" && args[0].includes(String(args[1]));
+    case "clojure.string/starts-with?":
+      return typeof args[0] === "string" && args[0].startsWith(String(args[1]));
+    case "clojure.string/ends-with?":
+      return typeof args[0] === "string" && args[0].endsWith(String(args[1]));
+    case "clojure.string/lower-case":
+      return String(args[0]).toLowerCase();
+    case "re-pattern":
+      return toRegExp(args[0]);
+    case "re-find": {
+      const match = toRegExp(args[0]).exec(String(args[1]));
+      return match ? match[0] : null;
+    }
+    case "str":
+      return args.map((a) => (a === null || a === undefined ? "" : String(a))).join("");
+    case "identity":
+      return args[0];
+    case "get-else": {
+      const [, eid, attr, fallback] = args;
+      const values = db.values(eid as number, attr as string);
+      return values.length > 0 ? values[0] : fallback;
+    }
+    case "missing?": {
+      const [, eid, attr] = args;
+      return db.values(eid as number, attr as string).length === 0;
+    }
+    default:
+      throw new DatalogError(`Unsupported function "${fn}"`);
+  }
+}
+
+function matchValue(pattern: EdnValue, value: unknown, bindings: Bindings): Bindings | undefined {
+  if (isBlank(pattern)) return bindings;
+  if (isVariable(pattern)) {
+    if (bindings.has(pattern.name)) {
+      return bindings.get(pattern.name) === value ? bindings : undefined;
+    }
+    const next = new Map(bindings);
+    next.set(pattern.name, value);
+    return next;
+  }
+  const constant = isKeyword(pattern) ? pattern.name : pattern;
+  return constant === value ? bindings : undefined;
+}
+
+function evalDataPattern(db: DatalogDb, clause: EdnValue[], bindings: Bindings): Bindings[] {
+  const [ePattern, aPattern, vPattern] = clause;
+  if (!isKeyword(aPattern)) {
+    throw new DatalogError("Only keyword attributes are supported in data patterns");
+  }
+  const attr = aPattern.name;
+
+  let candidates: number[];
+  if (isVariable(ePattern) && bindings.has(ePattern.name)) {
+    candidates = [bindings.get(ePattern.name) as number];
+  } else if (typeof ePattern === "number") {
+    candidates = [ePattern];
+  } else {
+    candidates = db.entityIds();
+  }
+
+  const results: Bindings[] = [];
+  for (const eid of candidates) {
+    const withEntity = matchValue(ePattern, eid, bindings);
+    if (!withEntity) continue;
+    const values = db.values(eid, attr);
+    if (vPattern === undefined) {
+      if (values.length > 0) results.push(withEntity);
+      continue;
+    }
+    for (const value of values) {
+      const matched = matchValue(vPattern, value, withEntity);
+      if (matched) results.push(matched);
+    }
+  }
+  return results;
+}
+
+function evalFunctionClause(db: DatalogDb, clause: EdnValue[], bindings: Bindings): Bindings[] {
+  const call = clause[0] as EdnList;
+  const fnSymbol = call.items[0];
+  if (!isSymbol(fnSymbol)) throw new DatalogError("Function clause must start with a symbol");
+  const args = call.items.slice(1).map((arg) => resolveArg(arg, bindings));
+  const result = callFunction(db, fnSymbol.name, args);
+
+  // Predicate: [(pred ?a ?b)]
+  if (clause.length === 1) {
+    return result ? [bindings] : [];
+  }
+
+  // Function binding: [(fn ?a) ?out]
+  if (result === null || result === undefined) return [];
+  const matched = matchValue(clause[1], result, bindings);
+  return matched ? [matched] : [];
+}
+
+function evalClause(db: DatalogDb, clause: EdnValue, bindings: Bindings[]): Bindings[] {
+  if (isList(clause)) {
+    const head = clause.items[0];
+    const body = clause.items.slice(1);
+    if (isSymbol(head, "not")) {
+      return bindings.filter((b) => evalClauses(db, body, [b]).length === 0);
+    }
+    if (isSymbol(head, "or")) {
+      return bindings.flatMap((b) =>
+        body.flatMap((branch) => {
+          const clauses =
+            isList(branch) && isSymbol(branch.items[0], "and") ? branch.items.slice(1) : [branch];
+          return evalClauses(db, clauses, [b]);
+        }),
+      );
+    }
+    if (isSymbol(head, "and")) {
+      return evalClauses(db, body, bindings);
+    }
+    throw new DatalogError("Unsupported clause");
+  }
+
+  if (!Array.isArray(clause) || clause.length === 0) {
+    throw new DatalogError("Invalid :where clause");
+  }
+
+  if (isList(clause[0])) {
+    return bindings.flatMap((b) => evalFunctionClause(db, clause, b));
+  }
+  return bindings.flatMap((b) => evalDataPattern(db, clause, b));
+}
+
+function evalClauses(db: DatalogDb, clauses: EdnValue[], bindings: Bindings[]): Bindings[] {
+  let current = bindings;
+  for (const clause of clauses) {
+    current = evalClause(db, clause, current);
+    if (current.length === 0) break;
+  }
+  return current;
+}
+
+// ============================================================================
+// Pull
+// ============================================================================
+
+export function pull(
+  db: DatalogDb,
+  eid: number,
+  pattern: EdnValue,
+  seen: Set<number> = new Set(),
+): Record<string, unknown> {
+  if (!Array.isArray(pattern)) throw new DatalogError("Pull pattern must be a vector");
+  const out: Record<string, unknown> = {};
+  const nextSeen = new Set(seen).add(eid);
+
+  const pullAttr = (attr: string, sub?: EdnValue, recursive = false): void => {
+    const values = db.values(eid, attr);
+    if (values.length === 0) return;
+    const expand = (value: unknown): unknown => {
+      if (!db.isRef(attr)) return value;
+      if (recursive) {
+        if (nextSeen.has(value as number)) return { ":db/id": value };
+        return pull(db, value as number, pattern, nextSeen);
+      }
+      if (sub !== undefined) return pull(db, value as number, sub, nextSeen);
+      return { ":db/id": value };
+    };
+    out[attr] = db.isMany(attr) ? values.map(expand) : expand(values[0]);
+  };
+
+  for (const item of pattern) {
+    if (isSymbol(item, "*")) {
+      out[":db/id"] = eid;
+      for (const attr of db.attributes(eid)) pullAttr(attr);
+    } else if (isKeyword(item)) {
+      if (item.name === ":db/id") out[":db/id"] = eid;
+      else pullAttr(item.name);
+    } else if (typeof item === "string") {
+      pullAttr(item.startsWith(":") ? item : `:${item}`);
+    } else if (isMap(item)) {
+      for (const [key, sub] of item.entries) {
+        if (!isKeyword(key)) throw new DatalogError("Pull map keys must be keywords");
+        const recursive = isSymbol(sub, "...") || typeof sub === "number";
+        pullAttr(key.name, sub, recursive);
+      }
+    } else {
+      throw new DatalogError("Unsupported pull pattern element");
+    }
+  }
+  return out;
+}
+
+// ============================================================================
+// Query entry point
+// ============================================================================
+
+function bindInputs(inputs: EdnValue[], args: unknown[]): Bindings[] {
+  let bindings: Bindings[] = [new Map()];
+  let argIndex = 0;
+  for (const input of inputs) {
+    if (isSymbol(input, "$")) continue;
+    const value = args[argIndex];
+    argIndex += 1;
+    if (isVariable(input)) {
+      bindings = bindings.map((b) => new Map(b).set(input.name, value));
+    } else if (Array.isArray(input) && input.length === 2 && isSymbol(input[1], "...")) {
+      const name = (input[0] as EdnSymbol).name;
+      const items = Array.isArray(value) ? value : [];
+      bindings = bindings.flatMap((b) => items.map((item) => new Map(b).set(name, item)));
+    } else {
+      throw new DatalogError("Unsupported :in binding");
+    }
+  }
+  return bindings;
+}
+
+function aggregate(fn: string, values: unknown[]): unknown {
+  switch (fn) {
+    case "count":
+      return values.length;
+    case "count-distinct":
+      return new Set(values).size;
+    case "min":
+      return values.reduce((a, b) => (compare(a, b) <= 0 ? a : b));
+    case "max":
+      return values.reduce((a, b) => (compare(a, b) >= 0 ? a : b));
+    default:
+      throw new DatalogError(`Unsupported aggregate "${fn}"`);
+  }
+}
+
+/**
+ * Evaluate a datalog query string against the database.
+ * `args` are positional inputs bound to the :in variables after `$`.
+ */
+export function runQuery(db: DatalogDb, source: string, args: unknown[] = []): unknown {
+  const query = parseQuery(source);
+  const bindings = evalClauses(db, query.where, bindInputs(query.inputs, args));
+
+  const project = (b: Bindings, el: FindElement): unknown => {
+    const value = b.get(el.name);
+    if (value === undefined) {
+      throw new DatalogError(`Find variable ${el.name} is not bound by :where`);
+    }
+    return el.kind === "pull" ? pull(db, value as number, el.pattern) : value;
+  };
+
+  let rows: unknown[][];
+  if (query.find.some((el) => el.kind === "aggregate")) {
+    const groups = new Map<string, { key: unknown[]; values: unknown[][] }>();
+    for (const b of bindings) {
+      const key = query.find.filter((el) => el.kind !== "aggregate").map((el) => project(b, el));
+      const keyString = JSON.stringify(key);
+      const group = groups.get(keyString) ?? { key, values: query.find.map(() => []) };
+      query.find.forEach((el, i) => {
+        if (el.kind === "aggregate") group.values[i].push(b.get(el.name));
+      });
+      groups.set(keyString, group);
+    }
+    rows = Array.from(groups.values()).map((group) => {
+      let keyIndex = 0;
+      return query.find.map((el, i) => {
+        if (el.kind === "aggregate") return aggregate(el.fn, group.values[i]);
+        const value = group.key[keyIndex];
+        keyIndex += 1;
+        return value;
+      });
+    });
+  } else {
+    // Set semantics: deduplicate rows
+    const seen = new Set<string>();
+    rows = [];
+    for (const b of bindings) {
+      const row = query.find.map((el) => project(b, el));
+      const key = JSON.stringify(row);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      rows.push(row);
+    }
+  }
+
+  switch (query.findShape) {
+    case "scalar":
+      return rows.length > 0 ? rows[0][0] : null;
+    case "collection":
+      return rows.map((row) => row[0]);
+    case "tuple":
+      return rows.length > 0 ? rows[0] : null;
+    default:
+      return rows;
+  }
+}
@@ -0,0 +1,163 @@
+// src/core/testing/edn.ts
+// Minimal EDN reader — just enough to parse the datalog queries sent to `q`.
+
+export interface EdnSymbol {
+  type: "symbol";
+  name: string;
+}
+
+export interface EdnKeyword {
+  type: "keyword";
+  name: string; // includes the leading ":" (e.g. ":block/uid")
+}
+
+export interface EdnList {
+  type: "list";
+  items: EdnValue[];
+}
+
+export interface EdnMap {
+  type: "map";
+  entries: Array<[EdnValue, EdnValue]>;
+}
+
+export type EdnValue =
+  | EdnSymbol
+  | EdnKeyword
+  | EdnList
+  | EdnMap
+  | EdnValue[]
+  | string
+  | number
+  | boolean
+  | null;
+
+export function isSymbol(value: unknown, name?: string): value is EdnSymbol {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    (value as EdnSymbol).type === "symbol" &&
+    (name === undefined || (value as EdnSymbol).name === name)
+  );
+}
+
+export function isKeyword(value: unknown): value is EdnKeyword {
+  return typeof value === "object" && value !== null && (value as EdnKeyword).type === "keyword";
+}
+
+export function isList(value: unknown): value is EdnList {
+  return typeof value === "object" && value !== null && (value as EdnList).type === "list";
+}
+
+export function isMap(value: unknown): value is EdnMap {
+  return typeof value === "object" && value !== null && (value as EdnMap).type === "map";
+}
+
+const DELIMITERS = new Set(["(", ")", "[", "]", "{", "}", '"', ";"]);
+
+/**
+ * Parse a single EDN form from a string. Throws on malformed input.
+ */
+export function parseEdn(source: string): EdnValue {
+  let pos = 0;
+
+  function skipWhitespace(): void {
+    while (pos < source.length) {
+      const ch = source[pos];
+      if (ch === ";") {
+        while (pos < source.length && source[pos] !== "\n") pos += 1;
+      } else if (/[\s,]/.test(ch)) {
+        pos += 1;
+      } else {
+        break;
+      }
+    }
+  }
+
+  function readCollection(close: string): EdnValue[] {
+    const items: EdnValue[] = [];
+    for (;;) {
+      skipWhitespace();
+      if (pos >= source.length) {
+        throw new Error(`Unexpected end of query, expected "${close}"`);
+      }
+      if (source[pos] === close) {
+        pos += 1;
+        return items;
+      }
+      items.push(readForm());
+    }
+  }
+
+  function readString(): string {
+    pos += 1; // opening quote
+    let out = "";
+    while (pos < source.length && source[pos] !== '"') {
+      if (source[pos] === "\\") {
+        const next = source[pos + 1];
+        out += next === "n" ? "\n" : next === "t" ? "\t" : next;
+        pos += 2;
+      } else {
+        out += source[pos];
+        pos += 1;
+      }
+    }
+    if (pos >= source.length) throw new Error("Unterminated string in query");
+    pos += 1; // closing quote
+    return out;
+  }
+
+  function readToken(): string {
+    const start = pos;
+    while (pos < source.length && !/[\s,]/.test(source[pos]) && !DELIMITERS.has(source[pos])) {
+      pos += 1;
+    }
+    return source.slice(start, pos);
+  }
+
+  function readForm(): EdnValue {
+    skipWhitespace();
+    if (pos >= source.length) throw new Error("Unexpected end of query");
+    const ch = source[pos];
+
+    if (ch === "[") {
+      pos += 1;
+      return readCollection("]");
+    }
+    if (ch === "(") {
+      pos += 1;
+      return { type: "list", items: readCollection(")") };
+    }
+    if (ch === "{") {
+      pos += 1;
+      const items = readCollection("}");
+      if (items.length % 2 !== 0)
+        throw new Error("Map literal must contain an even number of forms");
+      const entries: Array<[EdnValue, EdnValue]> = [];
+      for (let i = 0; i < items.length; i += 2) entries.push([items[i], items[i + 1]]);
+      return { type: "map", entries };
+    }
+    if (ch === '"') return readString();
+    if (ch === "#" && source[pos + 1] === '"') {
+      // Regex literal — represented as its source string
+      pos += 1;
+      return readString();
+    }
+    if (ch === ")" || ch === "]" || ch === "}") {
+      throw new Error(`Unexpected "${ch}" in query`);
+    }
+
+    const token = readToken();
+    if (token.startsWith(":")) return { type: "keyword", name: token };
+    if (token === "nil") return null;
+    if (token === "true") return true;
+    if (token === "false") return false;
+    if (/^[-+]?\d+(\.\d+)?$/.test(token)) return Number(token);
+    return { type: "symbol", name: token };
+  }
+
+  const form = readForm();
+  skipWhitespace();
+  if (pos < source.length) throw new Error("Unexpected trailing content after query");
+  return form;
+}
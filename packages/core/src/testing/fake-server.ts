@@ -0,0 +1,1006 @@
+// src/core/testing/fake-server.ts
+// In-memory stand-in for Roam Desktop's Local API, for exercising RoamClient and
+// every tool operation end to end without the desktop app (e.g. in CI).
+
+import { createServer } from "http";
+import type { Server, IncomingMessage, ServerResponse } from "http";
+import { randomBytes } from "crypto";
+import type { AddressInfo } from "net";
+import type { AccessLevel, GraphType } from "../types.js";
+import type { Transport } from "../transport.js";
+import { EXPECTED_API_VERSION, ErrorCodes } from "../types.js";
+import { runQuery } from "./datalog.js";
+import type { FakeNode, FakeOrder } from "./graph-store.js";
+import { FakeGraphStore, parseMarkdown, dailyNoteUid } from "./graph-store.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type FakeScope = "read" | "append" | "edit";
+
+export interface FakeGraphOptions {
+  name: string;
+  type?: GraphType;
+  open?: boolean;
+  // Highest access level the (fake) user can grant for this graph
+  maxAccessLevel?: AccessLevel;
+}
+
+export type FakeTokenRequestBehavior = "approve" | "reject" | "blocked" | "timeout" | "in-progress";
+
+export interface FakeRoamServerOptions {
+  graphs?: FakeGraphOptions[];
+  // API version reported by the server (default: EXPECTED_API_VERSION)
+  apiVersion?: string;
+  // How POST /api/graphs/tokens/request responds (default: "approve")
+  tokenRequestBehavior?: FakeTokenRequestBehavior;
+  userDisplayName?: string;
+}
+
+export interface FakeToken {
+  token: string;
+  graph: string;
+  type: GraphType;
+  accessLevel: AccessLevel;
+  description?: string;
+}
+
+export interface FakeRequest {
+  method: string;
+  path: string; // Path including query string, e.g. "/api/my-graph?type=offline"
+  headers?: Record<string, string | undefined>;
+  body?: unknown;
+}
+
+export interface FakeResponse {
+  status: number;
+  body: unknown;
+}
+
+// ============================================================================
+// Errors and scopes
+// ============================================================================
+
+class FakeApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: string,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+const TOKEN_PREFIX = "roam-graph-local-token-";
+
+const SCOPES_BY_ACCESS_LEVEL: Record<AccessLevel, Record<FakeScope, boolean>> = {
+  "read-only": { read: true, append: false, edit: false },
+  "read-append": { read: true, append: true, edit: false },
+  full: { read: true, append: true, edit: true },
+};
+
+const ACCESS_LEVEL_RANK: Record<AccessLevel, number> = {
+  "read-only": 0,
+  "read-append": 1,
+  full: 2,
+};
+
+function majorMinor(version: string): string {
+  return version.split(".").slice(0, 2).join(".");
+}
+
+// ============================================================================
+// Fake graph
+// ============================================================================
+
+interface FakeFile {
+  base64: string;
+  mimetype: string;
+  filename?: string;
+}
+
+interface FakeSidebarWindow {
+  type: string;
+  "window-id": string;
+  "block-uid"?: string;
+  "search-query-str"?: string;
+  order: number;
+}
+
+/**
+ * One fake graph: block/page store plus UI and file state.
+ * Seed content through `store` or `addPage`.
+ */
+export class FakeGraph {
+  readonly store: FakeGraphStore;
+  readonly files = new Map<string, FakeFile>();
+  mainWindow: { type: string; uid?: string; title?: string } = { type: "log" };
+  sidebar: FakeSidebarWindow[] = [];
+  focusedBlock: { "block-uid": string; "window-id": string } | null = null;
+  selectedBlocks: string[] = [];
+  starredPages: string[] = [];
+
+  constructor(
+    readonly name: string,
+    readonly type: GraphType,
+    public open: boolean,
+    readonly maxAccessLevel: AccessLevel,
+    userDisplayName?: string,
+  ) {
+    this.store = new FakeGraphStore(userDisplayName);
+  }
+
+  /** Create a page with markdown content; returns the page uid. */
+  addPage(title: string, markdown = "", uid?: string): string {
+    const page = this.store.createPage(title, { uid });
+    this.store.insertTree(page.uid, "last", parseMarkdown(markdown));
+    return page.uid;
+  }
+}
+
+// ============================================================================
+// Server
+// ============================================================================
+
+type ActionHandler = (graph: FakeGraph, args: unknown[]) => unknown;
+
+export class FakeRoamServer {
+  private graphs = new Map<string, FakeGraph>();
+  private tokens = new Map<string, FakeToken>();
+  private server: Server | null = null;
+  private readonly apiVersion: string;
+  private readonly userDisplayName?: string;
+  tokenRequestBehavior: FakeTokenRequestBehavior;
+
+  constructor(options: FakeRoamServerOptions = {}) {
+    this.apiVersion = options.apiVersion ?? EXPECTED_API_VERSION;
+    this.tokenRequestBehavior = options.tokenRequestBehavior ?? "approve";
+    this.userDisplayName = options.userDisplayName;
+    for (const graph of options.graphs ?? []) this.addGraph(graph);
+  }
+
+  // ==========================================================================
+  // Setup
+  // ==========================================================================
+
+  addGraph(options: FakeGraphOptions): FakeGraph {
+    const type = options.type ?? "hosted";
+    const graph = new FakeGraph(
+      options.name,
+      type,
+      options.open ?? true,
+      options.maxAccessLevel ?? "full",
+      this.userDisplayName,
+    );
+    this.graphs.set(`${type}:${options.name}`, graph);
+    return graph;
+  }
+
+  graph(name: string, type: GraphType = "hosted"): FakeGraph {
+    const graph = this.graphs.get(`${type}:${name}`);
+    if (!graph) throw new Error(`Fake graph "${name}" (${type}) has not been added`);
+    return graph;
+  }
+
+  /** Issue a token directly, as if approved in Roam Settings > Graph > Local API Tokens. */
+  issueToken(
+    graph: string,
+    options: { type?: GraphType; accessLevel?: AccessLevel; description?: string } = {},
+  ): string {
+    const token = TOKEN_PREFIX + randomBytes(16).toString("hex");
+    this.tokens.set(token, {
+      token,
+      graph,
+      type: options.type ?? "hosted",
+      accessLevel: options.accessLevel ?? "full",
+      description: options.description,
+    });
+    return token;
+  }
+
+  revokeToken(token: string): void {
+    this.tokens.delete(token);
+  }
+
+  // ==========================================================================
+  // Lifecycle
+  // ==========================================================================
+
+  /** Listen on 127.0.0.1. Pass 0 (default) for a random free port. */
+  async start(port = 0): Promise<number> {
+    if (this.server) return this.port;
+    const server = createServer((req, res) => {
+      this.handleHttp(req, res).catch((error) => {
+        res.writeHead(500, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ success: false, error: String(error) }));
+      });
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(port, "127.0.0.1", () => resolve());
+    });
+    this.server = server;
+    return this.port;
+  }
+
+  get port(): number {
+    if (!this.server) throw new Error("FakeRoamServer is not running");
+    return (this.server.address() as AddressInfo).port;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = null;
+    await new Promise<void>((resolve, reject) =>
+      server.close((error) => (error ? reject(error) : resolve())),
+    );
+  }
+
+  /**
+   * A Transport that calls handle() directly, for running RoamClient without a port:
+   * `new RoamClient({ ..., transport: server.transport() })`. Responses go through a JSON
+   * round trip, as they would over HTTP.
+   */
+  transport(): Transport {
+    return {
+      request: async (request) => {
+        const response = await this.handle({
+          method: request.method,
+          path: request.path,
+          headers: { authorization: request.headers?.Authorization },
+          body: request.body === undefined ? undefined : JSON.parse(JSON.stringify(request.body)),
+        });
+        return { status: response.status, body: JSON.parse(JSON.stringify(response.body)) };
+      },
+    };
+  }
+
+  private async handleHttp(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const raw = Buffer.concat(chunks).toString("utf-8");
+
+    let body: unknown;
+    try {
+      body = raw ? JSON.parse(raw) : undefined;
+    } catch {
+      res.writeHead(400, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ success: false, error: "Invalid JSON body" }));
+      return;
+    }
+
+    const response = await this.handle({
+      method: req.method ?? "GET",
+      path: req.url ?? "/",
+      headers: { authorization: req.headers.authorization },
+      body,
+    });
+    res.writeHead(response.status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(response.body));
+  }
+
+  // ==========================================================================
+  // Request handling (usable in-process without HTTP)
+  // ==========================================================================
+
+  async handle(request: FakeRequest): Promise<FakeResponse> {
+    const url = new URL(request.path, "http://127.0.0.1");
+    const path = url.pathname;
+
+    try {
+      if (path === "/api/graphs/available" && request.method === "GET") {
+        return this.ok(this.listGraphs(() => true));
+      }
+      if (path === "/api/graphs/open" && request.method === "GET") {
+        return this.ok(this.listGraphs((g) => g.open));
+      }
+      if (path === "/api/graphs/tokens/request" && request.method === "POST") {
+        return this.handleTokenRequest(request.body as Record<string, unknown>);
+      }
+      if (path === "/api/graphs/tokens/info" && request.method === "POST") {
+        return this.handleTokenInfo(request.body as Record<string, unknown>);
+      }
+      const match = /^\/api\/([A-Za-z0-9_-]+)$/.exec(path);
+      if (match && request.method === "POST") {
+        const type = url.searchParams.get("type") === "offline" ? "offline" : "hosted";
+        return this.handleAction(match[1], type, request);
+      }
+      throw new FakeApiError(
+        404,
+        ErrorCodes.UNKNOWN_ACTION,
+        `No route for ${request.method} ${path}`,
+      );
+    } catch (error) {
+      if (error instanceof FakeApiError) {
+        return {
+          status: error.status,
+          body: {
+            success: false,
+            error: { code: error.code, message: error.message },
+            apiVersion: this.apiVersion,
+          },
+        };
+      }
+      return {
+        status: 500,
+        body: {
+          success: false,
+          error: { message: error instanceof Error ? error.message : String(error) },
+          apiVersion: this.apiVersion,
+        },
+      };
+    }
+  }
+
+  private ok(result: unknown): FakeResponse {
+    return { status: 200, body: { success: true, result, apiVersion: this.apiVersion } };
+  }
+
+  private listGraphs(filter: (g: FakeGraph) => boolean): Array<{ name: string; type: GraphType }> {
+    return Array.from(this.graphs.values())
+      .filter(filter)
+      .map((g) => ({ name: g.name, type: g.type }));
+  }
+
+  private handleTokenRequest(body: Record<string, unknown> = {}): FakeResponse {
+    const name = String(body.graph ?? "");
+    const type = (body.graphType as GraphType) ?? "hosted";
+    const graph = this.graphs.get(`${type}:${name}`);
+    if (!graph) {
+      throw new FakeApiError(404, ErrorCodes.VALIDATION_ERROR, `Graph "${name}" is not available`);
+    }
+
+    const failures: Record<Exclude<FakeTokenRequestBehavior, "approve">, [number, string]> = {
+      reject: [403, ErrorCodes.USER_REJECTED],
+      blocked: [403, ErrorCodes.GRAPH_BLOCKED],
+      timeout: [408, ErrorCodes.TIMEOUT],
+      "in-progress": [409, ErrorCodes.REQUEST_IN_PROGRESS],
+    };
+    if (this.tokenRequestBehavior !== "approve") {
+      const [status, code] = failures[this.tokenRequestBehavior];
+      return { status, body: { success: false, error: { code, message: code } } };
+    }
+
+    const requested = (body.accessLevel as AccessLevel) ?? "full";
+    const granted =
+      ACCESS_LEVEL_RANK[requested] <= ACCESS_LEVEL_RANK[graph.maxAccessLevel]
+        ? requested
+        : graph.maxAccessLevel;
+    const token = this.issueToken(name, {
+      type,
+      accessLevel: granted,
+      description: body.description as string | undefined,
+    });
+    return {
+      status: 200,
+      body: {
+        success: true,
+        token,
+        graphName: name,
+        graphType: type,
+        grantedAccessLevel: granted,
+        grantedScopes: SCOPES_BY_ACCESS_LEVEL[granted],
+      },
+    };
+  }
+
+  private handleTokenInfo(body: Record<string, unknown> = {}): FakeResponse {
+    const info = this.tokens.get(String(body.token ?? ""));
+    if (!info || info.graph !== body.graph || (body.type && info.type !== body.type)) {
+      throw new FakeApiError(401, ErrorCodes.TOKEN_NOT_FOUND, "Token not found");
+    }
+    return {
+      status: 200,
+      body: {
+        success: true,
+        graphName: info.graph,
+        graphType: info.type,
+        grantedAccessLevel: info.accessLevel,
+        grantedScopes: SCOPES_BY_ACCESS_LEVEL[info.accessLevel],
+        description: info.description,
+      },
+    };
+  }
+
+  private authenticate(request: FakeRequest, graphName: string, type: GraphType): FakeToken {
+    const header = request.headers?.authorization ?? request.headers?.Authorization;
+    if (!header || !header.startsWith("Bearer ") || !header.slice(7)) {
+      throw new FakeApiError(401, ErrorCodes.MISSING_TOKEN, "Missing bearer token");
+    }
+    const token = header.slice(7);
+    if (!token.startsWith(TOKEN_PREFIX)) {
+      throw new FakeApiError(401, ErrorCodes.INVALID_TOKEN_FORMAT, "Invalid token format");
+    }
+    const info = this.tokens.get(token);
+    if (!info || info.graph !== graphName) {
+      throw new FakeApiError(401, ErrorCodes.TOKEN_NOT_FOUND, "Token not found");
+    }
+    if (info.type !== type) {
+      throw new FakeApiError(
+        401,
+        ErrorCodes.WRONG_GRAPH_TYPE,
+        `Token is for a ${info.type} graph, not ${type}`,
+      );
+    }
+    return info;
+  }
+
+  private handleAction(graphName: string, type: GraphType, request: FakeRequest): FakeResponse {
+    const body = (request.body ?? {}) as {
+      action?: string;
+      args?: unknown[];
+      expectedApiVersion?: string;
+    };
+
+    if (
+      body.expectedApiVersion &&
+      majorMinor(body.expectedApiVersion) !== majorMinor(this.apiVersion)
+    ) {
+      return {
+        status: 400,
+        body: {
+          success: false,
+          error: {
+            code: ErrorCodes.VERSION_MISMATCH,
+            message: `Expected API ${body.expectedApiVersion}, server is ${this.apiVersion}`,
+          },
+          apiVersion: this.apiVersion,
+          expectedApiVersion: body.expectedApiVersion,
+        },
+      };
+    }
+
+    const token = this.authenticate(request, graphName, type);
+    const graph = this.graphs.get(`${type}:${graphName}`);
+    if (!graph) {
+      throw new FakeApiError(404, ErrorCodes.VALIDATION_ERROR, `Graph "${graphName}" not found`);
+    }
+
+    const action = body.action ?? "";
+    const entry = ACTIONS[action];
+    if (!entry) {
+      throw new FakeApiError(404, ErrorCodes.UNKNOWN_ACTION, action || "(missing action)");
+    }
+    if (!SCOPES_BY_ACCESS_LEVEL[token.accessLevel][entry.scope]) {
+      throw new FakeApiError(
+        403,
+        ErrorCodes.INSUFFICIENT_SCOPE,
+        `Action "${action}" requires the "${entry.scope}" scope`,
+      );
+    }
+
+    try {
+      graph.open = true;
+      return this.ok(entry.handler(graph, body.args ?? []));
+    } catch (error) {
+      if (error instanceof FakeApiError) throw error;
+      throw new FakeApiError(
+        400,
+        ErrorCodes.VALIDATION_ERROR,
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+}
+
+// ============================================================================
+// Action implementations
+// ============================================================================
+
+function arg<T = Record<string, unknown>>(args: unknown[], index = 0): T {
+  return (args[index] ?? {}) as T;
+}
+
+function resolveLocation(
+  graph: FakeGraph,
+  location: Record<string, unknown>,
+): { parentUid: string; order: FakeOrder } {
+  const { store } = graph;
+  let parentUid: string;
+  const pageTitle = location["page-title"];
+  if (typeof location["parent-uid"] === "string") {
+    parentUid = store.require(location["parent-uid"]).uid;
+  } else if (typeof pageTitle === "string") {
+    parentUid = (store.getPageByTitle(pageTitle) ?? store.createPage(pageTitle)).uid;
+  } else if (pageTitle && typeof pageTitle === "object") {
+    const dnp = (pageTitle as Record<string, string>)["daily-note-page"];
+    parentUid = store.ensureDailyNote(dnp).uid;
+  } else {
+    throw new Error("location requires parent-uid or page-title");
+  }
+
+  const nestUnder = location["nest-under-str"];
+  if (typeof nestUnder === "string") {
+    const parent = store.require(parentUid);
+    const match = parent.children.find((c) => store.require(c).string === nestUnder);
+    parentUid = match ?? store.createBlock(parentUid, "last", nestUnder).uid;
+  }
+  return { parentUid, order: (location.order as FakeOrder) ?? "last" };
+}
+
+function blockMarkdown(graph: FakeGraph, uid: string, maxDepth?: number): string {
+  return graph.store.renderBlock(uid, maxDepth);
+}
+
+function pathItems(graph: FakeGraph, uid: string): Array<{ uid: string; title: string }> {
+  return graph.store.ancestors(uid).map((n) => ({ uid: n.uid, title: n.title ?? n.string ?? "" }));
+}
+
+function toResultItem(
+  graph: FakeGraph,
+  node: FakeNode,
+  options: { maxDepth?: number; includePath?: boolean; pathAsString?: boolean },
+): Record<string, unknown> {
+  const { store } = graph;
+  if (node.title !== undefined) {
+    return {
+      uid: node.uid,
+      type: "page",
+      markdown: `# ${node.title}\n${store.renderChildren(node.uid, options.maxDepth ?? 0)}`.trim(),
+    };
+  }
+  const item: Record<string, unknown> = {
+    uid: node.uid,
+    markdown: blockMarkdown(graph, node.uid, options.maxDepth ?? 0),
+  };
+  if (options.includePath !== false) {
+    item.path = options.pathAsString ? store.pathString(node.uid) : pathItems(graph, node.uid);
+  }
+  return item;
+}
+
+function paginate<T>(items: T[], offset = 0, limit = 20): { total: number; results: T[] } {
+  return { total: items.length, results: items.slice(offset, offset + limit) };
+}
+
+function sortNodes(nodes: FakeNode[], sort?: string, sortOrder?: string): FakeNode[] {
+  const key = sort === "edited-date" ? "editTime" : "createTime";
+  const dir = sortOrder === "asc" ? 1 : -1;
+  return [...nodes].sort((a, b) => (a[key] - b[key]) * dir);
+}
+
+// --- Roam query ({{query: }}) evaluation ---
+
+type QueryExpr = { op: "ref"; title: string } | { op: "and" | "or" | "not"; args: QueryExpr[] };
+
+function parseRoamQuery(source: string): QueryExpr {
+  let pos = 0;
+  const skip = () => {
+    while (pos < source.length && /\s/.test(source[pos])) pos += 1;
+  };
+  const readExpr = (): QueryExpr => {
+    skip();
+    if (source.startsWith("[[", pos)) {
+      const end = source.indexOf("]]", pos);
+      if (end === -1) throw new Error("Unterminated [[ in query");
+      const title = source.slice(pos + 2, end);
+      pos = end + 2;
+      return { op: "ref", title };
+    }
+    if (source[pos] === "{") {
+      pos += 1;
+      skip();
+      const opMatch = /^(and|or|not):/.exec(source.slice(pos));
+      if (!opMatch) throw new Error(`Unsupported query clause at "${source.slice(pos, pos + 20)}"`);
+      pos += opMatch[0].length;
+      const args: QueryExpr[] = [];
+      for (;;) {
+        skip();
+        if (source[pos] === "}") {
+          pos += 1;
+          break;
+        }
+        if (pos >= source.length) throw new Error("Unterminated { in query");
+        args.push(readExpr());
+      }
+      return { op: opMatch[1] as "and" | "or" | "not", args };
+    }
+    throw new Error(`Unexpected query content at "${source.slice(pos, pos + 20)}"`);
+  };
+  return readExpr();
+}
+
+function matchesQuery(titles: Set<string>, expr: QueryExpr): boolean {
+  switch (expr.op) {
+    case "ref":
+      return titles.has(expr.title);
+    case "and":
+      return expr.args.every((a) => matchesQuery(titles, a));
+    case "or":
+      return expr.args.some((a) => matchesQuery(titles, a));
+    case "not":
+      return !expr.args.some((a) => matchesQuery(titles, a));
+  }
+}
+
+function runRoamQuery(graph: FakeGraph, source: string): FakeNode[] {
+  const expr = parseRoamQuery(source);
+  const { store } = graph;
+  return store.blocks().filter((block) => {
+    if (block.commentOf) return false;
+    // Blocks inherit references from their ancestors, as in Roam
+    const titles = new Set<string>();
+    for (const node of [...store.ancestors(block.uid), block]) {
+      if (node.title !== undefined) titles.add(node.title);
+      for (const ref of store.refsOf(node)) if (ref.title !== undefined) titles.add(ref.title);
+    }
+    return matchesQuery(titles, expr);
+  });
+}
+
+const ACTIONS: Record<string, { scope: FakeScope; handler: ActionHandler }> = {
+  // --- Reads ---
+  "data.ai.getPage": {
+    scope: "read",
+    handler: (graph, args) => {
+      const { uid, title, maxDepth } = arg<{ uid?: string; title?: string; maxDepth?: number }>(
+        args,
+      );
+      const page = uid
+        ? graph.store.get(uid)
+        : title
+          ? graph.store.getPageByTitle(title)
+          : undefined;
+      if (!page || page.title === undefined) return undefined;
+      return {
+        uid: page.uid,
+        markdown: graph.store.renderChildren(page.uid, maxDepth),
+        queriedAt: new Date().toISOString(),
+      };
+    },
+  },
+  "data.ai.getBlock": {
+    scope: "read",
+    handler: (graph, args) => {
+      const { uid, maxDepth } = arg<{ uid: string; maxDepth?: number }>(args);
+      const block = graph.store.get(uid);
+      if (!block || block.title !== undefined) return undefined;
+      return {
+        uid,
+        markdown: blockMarkdown(graph, uid, maxDepth),
+        path: graph.store.pathString(uid),
+        queriedAt: new Date().toISOString(),
+      };
+    },
+  },
+  "data.ai.getBacklinks": {
+    scope: "read",
+    handler: (graph, args) => {
+      const p = arg<Record<string, unknown>>(args);
+      const target = p.uid
+        ? graph.store.get(p.uid as string)
+        : graph.store.getPageByTitle(p.title as string);
+      if (!target) throw new Error("Target page or block not found");
+      let nodes = graph.store.referencing(target.uid);
+      if (typeof p.search === "string" && p.search) {
+        const needle = (p.search as string).toLowerCase();
+        nodes = nodes.filter((n) => (n.string ?? "").toLowerCase().includes(needle));
+      }
+      const items = sortNodes(nodes, p.sort as string, p.sortOrder as string).map((n) =>
+        toResultItem(graph, n, {
+          maxDepth: (p.maxDepth as number) ?? 2,
+          includePath: p.includePath as boolean | undefined,
+        }),
+      );
+      return {
+        queriedAt: new Date().toISOString(),
+        ...paginate(items, p.offset as number, p.limit as number),
+      };
+    },
+  },
+  "data.ai.getComments": {
+    scope: "read",
+    handler: (graph, args) => {
+      const { uid, maxDepth } = arg<{ uid: string; maxDepth?: number }>(args);
+      graph.store.require(uid);
+      const comments = graph.store.comments(uid).map((c) => ({
+        parentUid: uid,
+        author: graph.store.userDisplayName,
+        createdTime: new Date(c.createTime).toISOString(),
+        editedTime: new Date(c.editTime).toISOString(),
+        markdown: blockMarkdown(graph, c.uid, maxDepth),
+        singleEditableUid: c.children.length === 0 ? c.uid : null,
+      }));
+      return { queriedAt: new Date().toISOString(), total: comments.length, comments };
+    },
+  },
+  "data.ai.search": {
+    scope: "read",
+    handler: (graph, args) => {
+      const p = arg<Record<string, unknown>>(args);
+      const query = String(p.query ?? "");
+      const { store } = graph;
+      if (!query) {
+        const pages = sortNodes(store.pages(), "edited-date", "desc").slice(0, 10);
+        return {
+          queriedAt: new Date().toISOString(),
+          suggestions: {
+            recentlyOpenedByUser: [],
+            recentlyEditedPages: pages.map((page) => ({
+              uid: page.uid,
+              title: page.title,
+              editedBy: store.userDisplayName,
+              editedAt: new Date(page.editTime).toISOString(),
+            })),
+          },
+        };
+      }
+      const needle = query.toLowerCase();
+      const scope = (p.scope as string) ?? "all";
+      const matches: FakeNode[] = [];
+      if (scope !== "blocks") {
+        matches.push(...store.pages().filter((n) => n.title!.toLowerCase().includes(needle)));
+      }
+      if (scope !== "pages") {
+        matches.push(
+          ...store
+            .blocks()
+            .filter((n) => !n.commentOf && (n.string ?? "").toLowerCase().includes(needle)),
+        );
+      }
+      const items = matches.map((n) =>
+        toResultItem(graph, n, {
+          maxDepth: p.maxDepth as number | undefined,
+          includePath: p.includePath as boolean | undefined,
+        }),
+      );
+      return {
+        queriedAt: new Date().toISOString(),
+        ...paginate(items, p.offset as number, p.limit as number),
+      };
+    },
+  },
+  "data.ai.searchTemplates": {
+    scope: "read",
+    handler: (graph, args) => {
+      const { query } = arg<{ query?: string }>(args);
+      const results = graph.store
+        .blocks()
+        .filter((b) => (b.string ?? "").includes("roam/templates"))
+        .map((b) => ({
+          name: (b.string ?? "").replace(/#?\[\[roam\/templates\]\]|#roam\/templates/g, "").trim(),
+          uid: b.uid,
+          content: graph.store.renderChildren(b.uid),
+        }))
+        .filter((t) => !query || t.name.toLowerCase().includes(query.toLowerCase()));
+      return { queriedAt: new Date().toISOString(), results };
+    },
+  },
+  "data.ai.roamQuery": {
+    scope: "read",
+    handler: (graph, args) => {
+      const p = arg<Record<string, unknown>>(args);
+      let source = p.query as string | undefined;
+      if (p.uid) {
+        const block = graph.store.require(p.uid as string);
+        const match = /\{\{(?:\[\[query\]\]|query):\s*(.*)\}\}/.exec(block.string ?? "");
+        if (!match) throw new Error(`Block "${p.uid}" does not contain a query`);
+        source = match[1];
+      }
+      const nodes = sortNodes(
+        runRoamQuery(graph, source ?? ""),
+        p.sort as string,
+        p.sortOrder as string,
+      );
+      const items = nodes.map((n) =>
+        toResultItem(graph, n, {
+          maxDepth: (p.maxDepth as number) ?? 1,
+          includePath: p.includePath as boolean | undefined,
+          pathAsString: true,
+        }),
+      );
+      return {
+        queriedAt: new Date().toISOString(),
+        ...paginate(items, p.offset as number, p.limit as number),
+      };
+    },
+  },
+  "data.ai.getGraphGuidelines": {
+    scope: "read",
+    handler: (graph) => {
+      const { store } = graph;
+      const guidelines = store.getPageByTitle("roam/agent guidelines");
+      const today = store.get(dailyNoteUid(new Date()));
+      return {
+        queriedAt: new Date().toISOString(),
+        guidelines: guidelines ? store.renderChildren(guidelines.uid) : null,
+        starredPages: graph.starredPages,
+        homepage: null,
+        todaysDailyNotePage: today?.title ?? null,
+        aiUserDisplayName: null,
+        aiUserDisplayPage: null,
+        humanUserDisplayName: store.userDisplayName,
+      };
+    },
+  },
+  q: {
+    scope: "read",
+    handler: (graph, args) => {
+      const [query, ...inputs] = args;
+      if (typeof query !== "string") throw new Error("q requires a query string");
+      return runQuery(graph.store.asDatalogDb(), query, inputs);
+    },
+  },
+
+  // --- Block and page writes ---
+  "data.block.fromMarkdown": {
+    scope: "append",
+    handler: (graph, args) => {
+      const p = arg<{ location: Record<string, unknown>; "markdown-string": string }>(args);
+      const { parentUid, order } = resolveLocation(graph, p.location ?? {});
+      return {
+        uids: graph.store.insertTree(parentUid, order, parseMarkdown(p["markdown-string"] ?? "")),
+      };
+    },
+  },
+  "data.page.fromMarkdown": {
+    scope: "append",
+    handler: (graph, args) => {
+      const p = arg<{ page: Record<string, unknown>; "markdown-string"?: string }>(args);
+      const title = p.page?.title as string;
+      if (!title) throw new Error("page.title is required");
+      const page = graph.store.createPage(title, {
+        uid: p.page.uid as string | undefined,
+        childrenViewType: p.page["children-view-type"] as FakeNode["childrenViewType"],
+      });
+      graph.store.insertTree(page.uid, "last", parseMarkdown(p["markdown-string"] ?? ""));
+      return { uid: page.uid };
+    },
+  },
+  "data.block.addComment": {
+    scope: "append",
+    handler: (graph, args) => {
+      const p = arg<Record<string, string>>(args);
+      const markdown = p["reply-markdown"] ?? p["reply-string"] ?? "";
+      const blocks =
+        p["reply-string"] !== undefined
+          ? [{ string: p["reply-string"], children: [] }]
+          : parseMarkdown(markdown);
+      const uids = graph.store.createComment(p["block-uid"], blocks);
+      return { uids, parentUid: p["block-uid"] };
+    },
+  },
+  "data.block.update": {
+    scope: "edit",
+    handler: (graph, args) => {
+      const { block } = arg<{ block: Record<string, unknown> }>(args);
+      graph.store.updateBlock(block.uid as string, {
+        string: block.string as string | undefined,
+        open: block.open as boolean | undefined,
+        heading: block.heading as number | undefined,
+        textAlign: block["text-align"] as FakeNode["textAlign"],
+        childrenViewType: block["children-view-type"] as FakeNode["childrenViewType"],
+      });
+      return undefined;
+    },
+  },
+  "data.block.move": {
+    scope: "edit",
+    handler: (graph, args) => {
+      const p = arg<{ location: Record<string, unknown>; block: { uid: string } }>(args);
+      const { parentUid, order } = resolveLocation(graph, p.location ?? {});
+      graph.store.moveBlock(p.block.uid, parentUid, order);
+      return undefined;
+    },
+  },
+  "data.block.delete": {
+    scope: "edit",
+    handler: (graph, args) => {
+      const { block } = arg<{ block: { uid: string } }>(args);
+      graph.store.delete(block.uid);
+      return undefined;
+    },
+  },
+  "data.page.update": {
+    scope: "edit",
+    handler: (graph, args) => {
+      const p = arg<{ page: Record<string, unknown>; "merge-pages"?: boolean }>(args);
+      graph.store.updatePage(
+        p.page.uid as string,
+        {
+          title: p.page.title as string | undefined,
+          childrenViewType: p.page["children-view-type"] as FakeNode["childrenViewType"],
+        },
+        p["merge-pages"] ?? false,
+      );
+      return undefined;
+    },
+  },
+  "data.page.delete": {
+    scope: "edit",
+    handler: (graph, args) => {
+      const { page } = arg<{ page: { uid: string } }>(args);
+      const node = graph.store.require(page.uid);
+      if (node.title === undefined) throw new Error(`"${page.uid}" is not a page`);
+      graph.store.delete(page.uid);
+      return undefined;
+    },
+  },
+
+  // --- UI ---
+  "ui.mainWindow.getOpenView": {
+    scope: "read",
+    handler: (graph) => graph.mainWindow,
+  },
+  "ui.rightSidebar.getWindows": {
+    scope: "read",
+    handler: (graph) => graph.sidebar,
+  },
+  "ui.getFocusedBlock": {
+    scope: "read",
+    handler: (graph) => graph.focusedBlock,
+  },
+  "ui.multiselect.getSelected": {
+    scope: "read",
+    handler: (graph) => graph.selectedBlocks.map((uid) => ({ "block-uid": uid })),
+  },
+  "ui.mainWindow.openBlock": {
+    scope: "read",
+    handler: (graph, args) => {
+      const { block } = arg<{ block: { uid: string } }>(args);
+      const node = graph.store.require(block.uid);
+      graph.mainWindow =
+        node.title !== undefined
+          ? { type: "outline", uid: node.uid, title: node.title }
+          : { type: "outline", uid: node.uid };
+      return undefined;
+    },
+  },
+  "ui.mainWindow.openPage": {
+    scope: "read",
+    handler: (graph, args) => {
+      const { page } = arg<{ page: { title: string } }>(args);
+      const node = graph.store.getPageByTitle(page.title) ?? graph.store.createPage(page.title);
+      graph.mainWindow = { type: "outline", uid: node.uid, title: node.title };
+      return undefined;
+    },
+  },
+  "ui.rightSidebar.addWindow": {
+    scope: "read",
+    handler: (graph, args) => {
+      const { window } = arg<{ window: { type: string; "block-uid": string } }>(args);
+      graph.store.require(window["block-uid"]);
+      graph.sidebar.unshift({
+        ...window,
+        "window-id": `sidebar-${randomBytes(4).toString("hex")}`,
+        order: 0,
+      });
+      graph.sidebar.forEach((w, i) => (w.order = i));
+      return undefined;
+    },
+  },
+
+  // --- Files ---
+  "file.get": {
+    scope: "read",
+    handler: (graph, args) => {
+      const { url } = arg<{ url: string }>(args);
+      const file = graph.files.get(url);
+      if (!file) throw new FakeApiError(404, ErrorCodes.VALIDATION_ERROR, `File not found: ${url}`);
+      return { base64: file.base64, mimetype: file.mimetype, filename: file.filename };
+    },
+  },
+  "file.upload": {
+    scope: "append",
+    handler: (graph, args) => {
+      const p = arg<{ base64: string; mimetype: string; filename?: string }>(args);
+      const id = randomBytes(8).toString("hex");
+      const name = encodeURIComponent(`imgs/app/${graph.name}/${id}-${p.filename ?? "file"}`);
+      const url = `https://firebasestorage.googleapis.com/v0/b/firescript-577a2.appspot.com/o/${name}?alt=media`;
+      graph.files.set(url, { base64: p.base64, mimetype: p.mimetype, filename: p.filename });
+      return `![](${url})`;
+    },
+  },
+  "file.delete": {
+    scope: "edit",
+    handler: (graph, args) => {
+      const { url } = arg<{ url: string }>(args);
+      if (!graph.files.delete(url)) {
+        throw new FakeApiError(404, ErrorCodes.VALIDATION_ERROR, `File not found: ${url}`);
+      }
+      return undefined;
+    },
+  },
+};
@@ -0,0 +1,219 @@
+// src/core/testing/fixtures.ts
+// Record-and-replay transports: capture every request/response pair a RoamClient makes
+// (against Roam or FakeRoamServer) to a JSON fixture, then serve them back in tests.
+
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import type { Transport, TransportRequest, TransportResponse } from "../transport.js";
+import type { GraphConfig } from "../types.js";
+import { CONFIG_VERSION } from "../types.js";
+
+export const FIXTURE_VERSION = 1;
+
+const REDACTED = "<redacted>";
+
+export interface FixtureInteraction {
+  request: {
+    method: string;
+    path: string;
+    headers?: Record<string, string>;
+    body?: unknown;
+  };
+  response: TransportResponse;
+}
+
+export interface Fixture {
+  version: number;
+  interactions: FixtureInteraction[];
+}
+
+/** Thrown by ReplayTransport when a request has no recorded response (or some went unused). */
+export class FixtureMismatchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FixtureMismatchError";
+  }
+}
+
+// Tokens never reach the fixture: the bearer header and any "token" field in a body
+function redact(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(redact);
+  if (value === null || typeof value !== "object") return value;
+  return Object.fromEntries(
+    Object.entries(value).map(([key, v]) => [key, key === "token" ? REDACTED : redact(v)]),
+  );
+}
+
+function redactRequest(request: TransportRequest): FixtureInteraction["request"] {
+  const headers = request.headers && { ...request.headers };
+  if (headers?.Authorization) headers.Authorization = `Bearer ${REDACTED}`;
+  return {
+    method: request.method,
+    path: request.path,
+    ...(headers && { headers }),
+    ...(request.body !== undefined && { body: redact(request.body) }),
+  };
+}
+
+// JSON with sorted object keys, so matching doesn't depend on property order
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, v: unknown) =>
+    v !== null && typeof v === "object" && !Array.isArray(v)
+      ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => a.localeCompare(b)))
+      : v,
+  );
+}
+
+// Requests match on method, path and (redacted) body; headers only carry the token
+function requestKey(request: FixtureInteraction["request"]): string {
+  return canonicalJson([request.method, request.path, request.body ?? null]);
+}
+
+function describeRequest(request: FixtureInteraction["request"]): string {
+  const body = request.body as { action?: unknown } | undefined;
+  const action = typeof body?.action === "string" ? ` ${body.action}` : "";
+  return `${request.method} ${request.path}${action} ${canonicalJson(request.body ?? null)}`;
+}
+
+/**
+ * Wraps another transport and writes every request/response pair to `fixturePath`, with
+ * tokens redacted. The file is rewritten after each response, so it is complete even if the
+ * run stops early. Failed requests (e.g. connection errors) are not recorded.
+ */
+export class RecordingTransport implements Transport {
+  readonly interactions: FixtureInteraction[] = [];
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(
+    private inner: Transport,
+    readonly fixturePath: string,
+  ) {}
+
+  async request(request: TransportRequest): Promise<TransportResponse> {
+    const response = await this.inner.request(request);
+    this.interactions.push({
+      request: redactRequest(request),
+      response: { status: response.status, body: redact(response.body) },
+    });
+    await this.save();
+    return response;
+  }
+
+  reset(): void {
+    this.inner.reset?.();
+  }
+
+  /** Write the fixture now. Saves are serialized, so the last write wins. */
+  async save(): Promise<void> {
+    const fixture: Fixture = { version: FIXTURE_VERSION, interactions: this.interactions };
+    const content = JSON.stringify(fixture, null, 2) + "\n";
+    this.saving = this.saving.then(() => writeFile(this.fixturePath, content, "utf-8"));
+    return this.saving;
+  }
+}
+
+/**
+ * Serves recorded responses. Each request must match a recorded one (method, path and body,
+ * tokens aside); identical requests get their recorded responses in order. Anything else
+ * throws FixtureMismatchError. Call assertDone() at the end of a test to also fail on
+ * recorded requests that were never made.
+ */
+export class ReplayTransport implements Transport {
+  private pending = new Map<string, FixtureInteraction[]>();
+
+  constructor(fixture: Fixture) {
+    if (fixture.version !== FIXTURE_VERSION) {
+      throw new FixtureMismatchError(
+        `Unsupported fixture version ${fixture.version} (expected ${FIXTURE_VERSION})`,
+      );
+    }
+    for (const interaction of fixture.interactions) {
+      const key = requestKey(interaction.request);
+      const queue = this.pending.get(key) ?? [];
+      queue.push(interaction);
+      this.pending.set(key, queue);
+    }
+  }
+
+  static async load(fixturePath: string): Promise<ReplayTransport> {
+    const content = await readFile(fixturePath, "utf-8");
+    return new ReplayTransport(JSON.parse(content) as Fixture);
+  }
+
+  async request(request: TransportRequest): Promise<TransportResponse> {
+    const recorded = redactRequest(request);
+    const interaction = this.pending.get(requestKey(recorded))?.shift();
+    if (!interaction) {
+      throw new FixtureMismatchError(
+        `No recorded response for ${describeRequest(recorded)}. Re-record the fixture if this request is expected.`,
+      );
+    }
+    // Callers may mutate results, so every replay gets its own copy
+    return structuredClone(interaction.response);
+  }
+
+  /** Recorded requests that have not been replayed yet. */
+  remaining(): FixtureInteraction[] {
+    return [...this.pending.values()].flat();
+  }
+
+  assertDone(): void {
+    const remaining = this.remaining();
+    if (remaining.length > 0) {
+      throw new FixtureMismatchError(
+        `${remaining.length} recorded request(s) were never made:\n` +
+          remaining.map((i) => `  ${describeRequest(i.request)}`).join("\n"),
+      );
+    }
+  }
+}
+
+// Files a tool call reads or writes under HOME, redirected by createFixtureEnvironment
+const ISOLATED_ENV_VARS = ["ROAM_TOOLS_CONFIG", "ROAM_AUDIT_LOG", "ROAM_UNDO_JOURNAL"] as const;
+
+export interface FixtureEnvironment {
+  dir: string; // Temp directory holding the files below
+  configPath: string; // User config naming the given graphs (ROAM_TOOLS_CONFIG)
+  auditLogPath: string; // ROAM_AUDIT_LOG
+  journalPath: string; // ROAM_UNDO_JOURNAL
+  restore(): Promise<void>; // Put the environment variables back and delete dir
+}
+
+/**
+ * Point ROAM_TOOLS_CONFIG, ROAM_AUDIT_LOG and ROAM_UNDO_JOURNAL at a fresh temp directory,
+ * with a user config listing `graphs`, so recording or replaying through routeToolCall
+ * neither reads the real ~/.roam-tools.json nor writes to the real audit log and undo
+ * journal. Environment variables are process-wide: call restore() when the test is done.
+ * ROAM_GRAPH/ROAM_TOKEN and a project .roam-tools.json still take precedence if present.
+ */
+export async function createFixtureEnvironment(graphs: GraphConfig[]): Promise<FixtureEnvironment> {
+  const dir = await mkdtemp(join(tmpdir(), "roam-tools-fixture-"));
+  const environment = {
+    dir,
+    configPath: join(dir, "roam-tools.json"),
+    auditLogPath: join(dir, "audit.jsonl"),
+    journalPath: join(dir, "journal.jsonl"),
+  };
+  await writeFile(
+    environment.configPath,
+    JSON.stringify({ version: CONFIG_VERSION, graphs }, null, 2) + "\n",
+    { mode: 0o600 },
+  );
+
+  const previous = ISOLATED_ENV_VARS.map((name) => [name, process.env[name]] as const);
+  process.env.ROAM_TOOLS_CONFIG = environment.configPath;
+  process.env.ROAM_AUDIT_LOG = environment.auditLogPath;
+  process.env.ROAM_UNDO_JOURNAL = environment.journalPath;
+
+  return {
+    ...environment,
+    async restore() {
+      for (const [name, value] of previous) {
+        if (value === undefined) delete process.env[name];
+        else process.env[name] = value;
+      }
+      await rm(dir, { recursive: true, force: true });
+    },
+  };
+}
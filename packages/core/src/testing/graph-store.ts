@@ -0,0 +1,549 @@
+// src/core/testing/graph-store.ts
+// In-memory page/block tree backing FakeRoamServer. Mirrors the parts of Roam's
+// data model that the Local API exposes: pages, nested blocks, references,
+// comments, and the datascript attributes used by datalog queries.
+
+import { randomBytes } from "crypto";
+import type { DatalogDb } from "./datalog.js";
+
+export interface FakeNode {
+  eid: number;
+  uid: string;
+  title?: string; // Present for pages
+  string?: string; // Present for blocks
+  children: string[]; // Child uids in order
+  parentUid?: string;
+  commentOf?: string; // Block uid this comment thread root belongs to
+  open: boolean;
+  heading?: number;
+  textAlign?: "left" | "center" | "right" | "justify";
+  childrenViewType?: "bullet" | "numbered" | "document";
+  createTime: number;
+  editTime: number;
+}
+
+export interface ParsedBlock {
+  string: string;
+  heading?: number;
+  children: ParsedBlock[];
+}
+
+export type FakeOrder = number | "first" | "last";
+
+const MONTHS = [
+  "January",
+  "February",
+  "March",
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December",
+];
+
+function ordinal(day: number): string {
+  if (day >= 11 && day <= 13) return `${day}th`;
+  switch (day % 10) {
+    case 1:
+      return `${day}st`;
+    case 2:
+      return `${day}nd`;
+    case 3:
+      return `${day}rd`;
+    default:
+      return `${day}th`;
+  }
+}
+
+/**
+ * Convert an MM-DD-YYYY daily note uid to its page title (e.g. "March 17th, 2026").
+ */
+export function dailyNoteTitle(mmddyyyy: string): string {
+  const [month, day, year] = mmddyyyy.split("-").map(Number);
+  return `${MONTHS[month - 1]} ${ordinal(day)}, ${year}`;
+}
+
+export function dailyNoteUid(date: Date): string {
+  const mm = String(date.getMonth() + 1).padStart(2, "0");
+  const dd = String(date.getDate()).padStart(2, "0");
+  return `${mm}-${dd}-${date.getFullYear()}`;
+}
+
+const UID_ALPHABET = "abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789_-";
+
+function generateUid(): string {
+  const bytes = randomBytes(9);
+  let uid = "";
+  for (const byte of bytes) uid += UID_ALPHABET[byte % UID_ALPHABET.length];
+  return uid;
+}
+
+const ROAM_TAG = (uid: string) => `<roam uid="${uid}" />`;
+
+/**
+ * Extract referenced page titles and block uids from a block string.
+ */
+export function extractRefs(text: string): { titles: string[]; uids: string[] } {
+  const titles = new Set<string>();
+  const uids = new Set<string>();
+  for (const match of text.matchAll(/\[\[([^[\]]+)\]\]/g)) titles.add(match[1]);
+  for (const match of text.matchAll(/(?:^|\s)#([^\s[\]#,.;:!?()"]+)/g)) titles.add(match[1]);
+  const attr = /^([^:\n`]+)::/.exec(text);
+  if (attr) titles.add(attr[1].trim());
+  for (const match of text.matchAll(/\(\(([A-Za-z0-9_-]{9})\)\)/g)) uids.add(match[1]);
+  return { titles: Array.from(titles), uids: Array.from(uids) };
+}
+
+/**
+ * Parse indented markdown into a block tree. Bulleted and plain lines both become
+ * blocks; indentation decides nesting; `#` prefixes become heading levels.
+ */
+export function parseMarkdown(markdown: string): ParsedBlock[] {
+  const roots: ParsedBlock[] = [];
+  const stack: Array<{ indent: number; block: ParsedBlock }> = [];
+  let last: { indent: number; block: ParsedBlock } | undefined;
+
+  for (const rawLine of markdown.replace(/\t/g, "  ").split("\n")) {
+    if (!rawLine.trim()) continue;
+    const indent = rawLine.length - rawLine.trimStart().length;
+    const bullet = /^([-*+]|\d+\.)\s+(.*)$/.exec(rawLine.trimStart());
+
+    if (!bullet && last && indent > last.indent) {
+      // Continuation of a multi-line block
+      last.block.string += "\n" + rawLine.trim();
+      continue;
+    }
+
+    let text = bullet ? bullet[2] : rawLine.trim();
+    let heading: number | undefined;
+    const headingMatch = /^(#{1,3})\s+(.*)$/.exec(text);
+    if (headingMatch) {
+      heading = headingMatch[1].length;
+      text = headingMatch[2];
+    }
+    const block: ParsedBlock = { string: text, children: [] };
+    if (heading) block.heading = heading;
+
+    while (stack.length > 0 && stack[stack.length - 1].indent >= indent) stack.pop();
+    if (stack.length === 0) roots.push(block);
+    else stack[stack.length - 1].block.children.push(block);
+
+    last = { indent, block };
+    stack.push(last);
+  }
+  return roots;
+}
+
+export class FakeGraphStore {
+  private nodes = new Map<string, FakeNode>();
+  private byEid = new Map<number, FakeNode>();
+  private nextEid = 1;
+  private clock = Date.now();
+
+  readonly userEid: number;
+  readonly userUid = "fake-user";
+
+  constructor(readonly userDisplayName = "Fake User") {
+    this.userEid = this.nextEid;
+    this.nextEid += 1;
+  }
+
+  // ==========================================================================
+  // Lookup
+  // ==========================================================================
+
+  get(uid: string): FakeNode | undefined {
+    return this.nodes.get(uid);
+  }
+
+  require(uid: string): FakeNode {
+    const node = this.nodes.get(uid);
+    if (!node) throw new Error(`No block or page with uid "${uid}"`);
+    return node;
+  }
+
+  getPageByTitle(title: string): FakeNode | undefined {
+    for (const node of this.nodes.values()) {
+      if (node.title === title) return node;
+    }
+    return undefined;
+  }
+
+  allNodes(): FakeNode[] {
+    return Array.from(this.nodes.values());
+  }
+
+  pages(): FakeNode[] {
+    return this.allNodes().filter((n) => n.title !== undefined);
+  }
+
+  blocks(): FakeNode[] {
+    return this.allNodes().filter((n) => n.title === undefined);
+  }
+
+  /** Page the node lives on (the node itself for pages). */
+  pageOf(uid: string): FakeNode | undefined {
+    let node = this.nodes.get(uid);
+    while (node && node.title === undefined) {
+      const parentUid = node.parentUid ?? node.commentOf;
+      node = parentUid ? this.nodes.get(parentUid) : undefined;
+    }
+    return node;
+  }
+
+  /** Ancestors from page down to the direct parent. */
+  ancestors(uid: string): FakeNode[] {
+    const out: FakeNode[] = [];
+    let node = this.nodes.get(uid);
+    while (node) {
+      const parentUid = node.parentUid ?? node.commentOf;
+      node = parentUid ? this.nodes.get(parentUid) : undefined;
+      if (node) out.unshift(node);
+    }
+    return out;
+  }
+
+  orderOf(uid: string): number {
+    const node = this.require(uid);
+    if (!node.parentUid) return 0;
+    return this.require(node.parentUid).children.indexOf(uid);
+  }
+
+  descendants(uid: string): FakeNode[] {
+    const node = this.require(uid);
+    return node.children.flatMap((childUid) => [
+      this.require(childUid),
+      ...this.descendants(childUid),
+    ]);
+  }
+
+  comments(blockUid: string): FakeNode[] {
+    return this.allNodes().filter((n) => n.commentOf === blockUid);
+  }
+
+  refsOf(node: FakeNode): FakeNode[] {
+    if (node.string === undefined) return [];
+    const { titles, uids } = extractRefs(node.string);
+    const out: FakeNode[] = [];
+    for (const title of titles) {
+      const page = this.getPageByTitle(title);
+      if (page) out.push(page);
+    }
+    for (const uid of uids) {
+      const block = this.nodes.get(uid);
+      if (block) out.push(block);
+    }
+    return out;
+  }
+
+  /** Blocks that reference the given page or block. */
+  referencing(uid: string): FakeNode[] {
+    return this.blocks().filter((b) => this.refsOf(b).some((r) => r.uid === uid));
+  }
+
+  // ==========================================================================
+  // Mutation
+  // ==========================================================================
+
+  private tick(): number {
+    this.clock = Math.max(this.clock + 1, Date.now());
+    return this.clock;
+  }
+
+  private insertNode(
+    partial: Omit<FakeNode, "eid" | "createTime" | "editTime" | "children">,
+  ): FakeNode {
+    if (this.nodes.has(partial.uid)) {
+      throw new Error(`A block or page with uid "${partial.uid}" already exists`);
+    }
+    const now = this.tick();
+    const node: FakeNode = {
+      ...partial,
+      eid: this.nextEid,
+      children: [],
+      createTime: now,
+      editTime: now,
+    };
+    this.nextEid += 1;
+    this.nodes.set(node.uid, node);
+    this.byEid.set(node.eid, node);
+    return node;
+  }
+
+  private ensureRefPages(text: string): void {
+    for (const title of extractRefs(text).titles) {
+      if (!this.getPageByTitle(title)) this.createPage(title);
+    }
+  }
+
+  private resolveIndex(parent: FakeNode, order: FakeOrder): number {
+    if (order === "first") return 0;
+    if (order === "last") return parent.children.length;
+    return Math.max(0, Math.min(order, parent.children.length));
+  }
+
+  createPage(
+    title: string,
+    options: { uid?: string; childrenViewType?: FakeNode["childrenViewType"] } = {},
+  ): FakeNode {
+    if (this.getPageByTitle(title)) {
+      throw new Error(`Page "${title}" already exists`);
+    }
+    return this.insertNode({
+      uid: options.uid ?? generateUid(),
+      title,
+      open: true,
+      childrenViewType: options.childrenViewType,
+    });
+  }
+
+  /** Get a daily note page by MM-DD-YYYY, creating it if needed. */
+  ensureDailyNote(mmddyyyy: string): FakeNode {
+    const existing = this.nodes.get(mmddyyyy);
+    if (existing) return existing;
+    return this.createPage(dailyNoteTitle(mmddyyyy), { uid: mmddyyyy });
+  }
+
+  createBlock(
+    parentUid: string,
+    order: FakeOrder,
+    text: string,
+    props: Partial<Pick<FakeNode, "heading" | "open" | "uid">> = {},
+  ): FakeNode {
+    const parent = this.require(parentUid);
+    const node = this.insertNode({
+      uid: props.uid ?? generateUid(),
+      string: text,
+      parentUid,
+      open: props.open ?? true,
+      heading: props.heading,
+    });
+    parent.children.splice(this.resolveIndex(parent, order), 0, node.uid);
+    this.ensureRefPages(text);
+    return node;
+  }
+
+  /** Insert a parsed tree; returns created uids in document order. */
+  insertTree(parentUid: string, order: FakeOrder, blocks: ParsedBlock[]): string[] {
+    const uids: string[] = [];
+    let index = order === "last" ? this.require(parentUid).children.length : order;
+    for (const parsed of blocks) {
+      const node = this.createBlock(parentUid, index, parsed.string, { heading: parsed.heading });
+      uids.push(node.uid);
+      uids.push(...this.insertTree(node.uid, "last", parsed.children));
+      index = typeof index === "number" ? index + 1 : this.orderOf(node.uid) + 1;
+    }
+    return uids;
+  }
+
+  createComment(blockUid: string, blocks: ParsedBlock[]): string[] {
+    this.require(blockUid);
+    const root = this.insertNode({
+      uid: generateUid(),
+      string: blocks.length === 1 ? blocks[0].string : "",
+      commentOf: blockUid,
+      open: true,
+    });
+    if (blocks.length === 1) {
+      return [root.uid, ...this.insertTree(root.uid, "last", blocks[0].children)];
+    }
+    return [root.uid, ...this.insertTree(root.uid, "last", blocks)];
+  }
+
+  updateBlock(
+    uid: string,
+    props: Partial<
+      Pick<FakeNode, "string" | "open" | "heading" | "textAlign" | "childrenViewType">
+    >,
+  ): void {
+    const node = this.require(uid);
+    if (node.title !== undefined && props.string !== undefined) {
+      throw new Error(`"${uid}" is a page, not a block`);
+    }
+    Object.assign(
+      node,
+      Object.fromEntries(Object.entries(props).filter(([, v]) => v !== undefined)),
+    );
+    node.editTime = this.tick();
+    if (props.string !== undefined) this.ensureRefPages(props.string);
+  }
+
+  moveBlock(uid: string, parentUid: string, order: FakeOrder): void {
+    const node = this.require(uid);
+    if (node.title !== undefined) throw new Error("Pages cannot be moved");
+    if (parentUid === uid || this.descendants(uid).some((d) => d.uid === parentUid)) {
+      throw new Error("Cannot move a block under itself");
+    }
+    const newParent = this.require(parentUid);
+    if (node.parentUid) {
+      const oldParent = this.require(node.parentUid);
+      oldParent.children = oldParent.children.filter((c) => c !== uid);
+    }
+    newParent.children.splice(this.resolveIndex(newParent, order), 0, uid);
+    node.parentUid = parentUid;
+    node.editTime = this.tick();
+  }
+
+  delete(uid: string): void {
+    const node = this.require(uid);
+    for (const child of [...node.children]) this.delete(child);
+    for (const comment of this.comments(uid)) this.delete(comment.uid);
+    if (node.parentUid) {
+      const parent = this.nodes.get(node.parentUid);
+      if (parent) parent.children = parent.children.filter((c) => c !== uid);
+    }
+    this.nodes.delete(uid);
+    this.byEid.delete(node.eid);
+  }
+
+  updatePage(
+    uid: string,
+    props: { title?: string; childrenViewType?: FakeNode["childrenViewType"] },
+    mergePages = false,
+  ): void {
+    const page = this.require(uid);
+    if (page.title === undefined) throw new Error(`"${uid}" is not a page`);
+    if (props.title !== undefined && props.title !== page.title) {
+      const existing = this.getPageByTitle(props.title);
+      if (existing) {
+        if (!mergePages) {
+          throw new Error(
+            `A page titled "${props.title}" already exists. Pass merge-pages to merge them.`,
+          );
+        }
+        for (const child of [...page.children]) this.moveBlock(child, existing.uid, "last");
+        this.delete(page.uid);
+        return;
+      }
+      page.title = props.title;
+    }
+    if (props.childrenViewType !== undefined) page.childrenViewType = props.childrenViewType;
+    page.editTime = this.tick();
+  }
+
+  // ==========================================================================
+  // Rendering
+  // ==========================================================================
+
+  /** Render a node's children (or the node itself) as markdown with <roam> uid tags. */
+  renderBlock(uid: string, maxDepth?: number, depth = 0): string {
+    const node = this.require(uid);
+    const indent = "  ".repeat(depth);
+    const prefix = node.heading ? "#".repeat(node.heading) + " " : "";
+    const text = (node.string ?? "").split("\n").join(`\n${indent}  `);
+    const lines = [`${indent}- ${prefix}${text} ${ROAM_TAG(node.uid)}`];
+    if (maxDepth === undefined || depth < maxDepth) {
+      for (const child of node.children) lines.push(this.renderBlock(child, maxDepth, depth + 1));
+    }
+    return lines.join("\n");
+  }
+
+  renderChildren(uid: string, maxDepth?: number): string {
+    const node = this.require(uid);
+    if (maxDepth !== undefined && maxDepth <= 0) return "";
+    const childDepth = maxDepth === undefined ? undefined : maxDepth - 1;
+    return node.children.map((child) => this.renderBlock(child, childDepth)).join("\n");
+  }
+
+  /** Breadcrumb path as "Page > Parent > ..." */
+  pathString(uid: string): string {
+    return this.ancestors(uid)
+      .map((n) => n.title ?? n.string ?? "")
+      .join(" > ");
+  }
+
+  // ==========================================================================
+  // Datalog view
+  // ==========================================================================
+
+  asDatalogDb(): DatalogDb {
+    const REF_ATTRS = new Set([
+      ":block/children",
+      ":block/parents",
+      ":block/page",
+      ":block/refs",
+      ":create/user",
+      ":edit/user",
+    ]);
+    const MANY_ATTRS = new Set([":block/children", ":block/parents", ":block/refs"]);
+    const NODE_ATTRS = [
+      ":block/uid",
+      ":node/title",
+      ":block/string",
+      ":block/children",
+      ":block/parents",
+      ":block/page",
+      ":block/order",
+      ":block/open",
+      ":block/heading",
+      ":block/text-align",
+      ":children/view-type",
+      ":block/refs",
+      ":create/time",
+      ":edit/time",
+      ":create/user",
+      ":edit/user",
+    ];
+
+    const values = (eid: number, attr: string): unknown[] => {
+      if (eid === this.userEid) {
+        if (attr === ":user/display-name") return [this.userDisplayName];
+        if (attr === ":user/uid") return [this.userUid];
+        return [];
+      }
+      const node = this.byEid.get(eid);
+      if (!node) return [];
+      const one = (value: unknown) => (value === undefined ? [] : [value]);
+      switch (attr) {
+        case ":block/uid":
+          return [node.uid];
+        case ":node/title":
+          return one(node.title);
+        case ":block/string":
+          return one(node.string);
+        case ":block/children":
+          return node.children.map((c) => this.require(c).eid);
+        case ":block/parents":
+          return node.title === undefined ? this.ancestors(node.uid).map((n) => n.eid) : [];
+        case ":block/page":
+          return node.title === undefined ? one(this.pageOf(node.uid)?.eid) : [];
+        case ":block/order":
+          return node.parentUid ? [this.orderOf(node.uid)] : [];
+        case ":block/open":
+          return node.title === undefined ? [node.open] : [];
+        case ":block/heading":
+          return one(node.heading);
+        case ":block/text-align":
+          return one(node.textAlign);
+        case ":children/view-type":
+          return one(node.childrenViewType ? `:${node.childrenViewType}` : undefined);
+        case ":block/refs":
+          return this.refsOf(node).map((n) => n.eid);
+        case ":create/time":
+          return [node.createTime];
+        case ":edit/time":
+          return [node.editTime];
+        case ":create/user":
+        case ":edit/user":
+          return [this.userEid];
+        default:
+          return [];
+      }
+    };
+
+    return {
+      entityIds: () => [this.userEid, ...Array.from(this.byEid.keys())],
+      attributes: (eid) =>
+        eid === this.userEid
+          ? [":user/display-name", ":user/uid"]
+          : NODE_ATTRS.filter((attr) => values(eid, attr).length > 0),
+      values,
+      isRef: (attr) => REF_ATTRS.has(attr),
+      isMany: (attr) => MANY_ATTRS.has(attr),
+    };
+  }
+}
@@ -0,0 +1,25 @@
+// Barrel export for @roam-research/roam-tools-core/testing
+// Test utilities — not loaded by the MCP server or CLI at runtime.
+
+export { FakeRoamServer, FakeGraph } from "./fake-server.js";
+export type {
+  FakeScope,
+  FakeGraphOptions,
+  FakeRoamServerOptions,
+  FakeTokenRequestBehavior,
+  FakeToken,
+  FakeRequest,
+  FakeResponse,
+} from "./fake-server.js";
+export {
+  RecordingTransport,
+  ReplayTransport,
+  FixtureMismatchError,
+  FIXTURE_VERSION,
+  createFixtureEnvironment,
+} from "./fixtures.js";
+export type { Fixture, FixtureInteraction, FixtureEnvironment } from "./fixtures.js";
+export { FakeGraphStore, parseMarkdown, extractRefs, dailyNoteTitle } from "./graph-store.js";
+export type { FakeNode, ParsedBlock, FakeOrder } from "./graph-store.js";
+export { runQuery, DatalogError } from "./datalog.js";
+export type { DatalogDb } from "./datalog.js";
@@ -1,18 +1,30 @@
 import { z } from "zod";
-import type { CallToolResult, TokenInfoResponse, AccessLevel } from "./types.js";
-import { RoamError } from "./types.js";
+import type {
+  CallToolResult,
+  TokenInfoResponse,
+  AccessLevel,
+  ResolvedGraph,
+  ToolScope,
+  AuditCaller,
+} from "./types.js";
+import { RoamError, ErrorCodes, ACCESS_LEVEL_SCOPES } from "./types.js";
 import { RoamClient } from "./client.js";
-import { resolveGraph, getPort, updateGraphTokenStatus } from "./graph-resolver.js";
+import type { Transport } from "./transport.js";
+import { resolveGraph, createClientForGraph, updateGraphTokenStatus } from "./graph-resolver.js";
 import {
   CreatePageSchema,
   GetPageSchema,
   DeletePageSchema,
   UpdatePageSchema,
+  RenamePageSchema,
+  MergePagesSchema,
   GetGuidelinesSchema,
   createPage,
   getPage,
   deletePage,
   updatePage,
+  renamePage,
+  mergePages,
   getGuidelines,
 } from "./operations/pages.js";
 import {
@@ -21,6 +33,7 @@ import {
   UpdateBlockSchema,
   DeleteBlockSchema,
   MoveBlockSchema,
+  CopyBlockSchema,
   GetBacklinksSchema,
   AddCommentSchema,
   GetCommentsSchema,
@@ -29,6 +42,7 @@ import {
   updateBlock,
   deleteBlock,
   moveBlock,
+  copyBlock,
   getBacklinks,
   addComment,
   getComments,
@@ -40,6 +54,23 @@ import {
   searchTemplates,
 } from "./operations/search.js";
 import { QuerySchema, query } from "./operations/query.js";
+import { FindReplaceSchema, findReplace } from "./operations/replace.js";
+import {
+  GetAttributesSchema,
+  SetAttributeSchema,
+  FindPagesByAttributeSchema,
+  getAttributes,
+  setAttribute,
+  findPagesByAttribute,
+} from "./operations/attributes.js";
+import {
+  ListTasksSchema,
+  SetTaskStatusSchema,
+  listTasks,
+  setTaskStatus,
+} from "./operations/tasks.js";
+import { GetDailyNotesSchema, getDailyNotes } from "./operations/daily-notes.js";
+import { ApplyTemplateSchema, applyTemplate } from "./operations/templates.js";
 import { DatalogQuerySchema, datalogQuery } from "./operations/datalog.js";
 import {
   GetOpenWindowsSchema,
@@ -59,19 +90,24 @@ import {
   uploadFile,
   deleteFile,
 } from "./operations/files.js";
+import { UndoSchema, undoLastChange } from "./operations/undo.js";
+import { BatchOperationsSchema, batchOperations } from "./operations/batch.js";
 import {
   ListGraphsSchema,
   SetupNewGraphSchema,
   listGraphs,
   setupNewGraph,
 } from "./operations/graphs.js";
+import { isDryRun } from "./operations/dry-run.js";
 
 // Common schema for graph parameter (used by most tools)
 const GraphSchema = z.object({
   graph: z
     .string()
     .optional()
-    .describe("Graph nickname or name (optional - auto-selects if only one graph is configured)"),
+    .describe(
+      "Graph nickname, alias or name (optional - auto-selects if only one graph is configured or one is marked default)",
+    ),
 });
 
 // Helper to extend any schema with graph parameter
@@ -86,6 +122,10 @@ export interface ClientToolDefinition {
   schema: z.ZodObject<z.ZodRawShape>;
   action: (client: RoamClient, args: unknown) => Promise<CallToolResult>;
   type: "client";
+  scope: ToolScope;
+  // Scope for a particular call, when some arguments need more than `scope` (checked before
+  // anything is written, so a call can't fail halfway through)
+  callScope?: (args: unknown) => ToolScope;
 }
 
 // Standalone tool that handles its own graph resolution
@@ -99,12 +139,17 @@ export interface StandaloneToolDefinition {
 
 export type ToolDefinition = ClientToolDefinition | StandaloneToolDefinition;
 
-// Helper to create tool with graph parameter
+// Helper to create tool with graph parameter.
+// scope is the token scope the tool needs; calls on graphs without it are rejected up front.
+// callScope adjusts it for calls whose arguments need more or less (e.g. copy_block with
+// leaveInPlace, or a dryRun preview).
 function defineTool<T extends z.ZodRawShape>(
   name: string,
   description: string,
   schema: z.ZodObject<T>,
   action: (client: RoamClient, args: z.infer<z.ZodObject<T>>) => Promise<CallToolResult>,
+  scope: ToolScope,
+  callScope?: (args: z.infer<z.ZodObject<T>>) => ToolScope,
 ): ClientToolDefinition {
   return {
     name,
@@ -112,9 +157,16 @@ function defineTool<T extends z.ZodRawShape>(
     schema: withGraph(schema),
     action: (client, args) => action(client, args as z.infer<z.ZodObject<T>>),
     type: "client",
+    scope,
+    ...(callScope && { callScope: (args) => callScope(args as z.infer<z.ZodObject<T>>) }),
   };
 }
 
+// callScope for edit tools whose dryRun preview only reads, so read-only graphs can preview
+function readScopeForDryRun(args: { dryRun?: boolean }): ToolScope {
+  return isDryRun(args) ? "read" : "edit";
+}
+
 // Helper to create standalone tool (no graph parameter, handles its own resolution)
 function defineStandaloneTool<T extends z.ZodRawShape>(
   name: string,
@@ -158,12 +210,14 @@ const contentTools: ClientToolDefinition[] = [
     "IMPORTANT: Call this tool first when starting to work with a graph, before performing any other operations. Returns user-defined instructions and preferences for AI agents. The user may have specified naming conventions, preferred structures, or constraints that should guide your behavior. After receiving the response, follow the nextSteps field — it contains orientation actions you should take before proceeding.",
     GetGuidelinesSchema,
     getGuidelines,
+    "read",
   ),
   defineTool(
     "create_page",
     "Create a new page in Roam, optionally with markdown content." + GUIDELINES_NOTE,
     CreatePageSchema,
     createPage,
+    "append",
   ),
   defineTool(
     "create_block",
@@ -171,24 +225,55 @@ const contentTools: ClientToolDefinition[] = [
       GUIDELINES_NOTE,
     CreateBlockSchema,
     createBlock,
+    "append",
   ),
   defineTool(
     "update_block",
     "Update an existing block's content or properties." + GUIDELINES_NOTE,
     UpdateBlockSchema,
     updateBlock,
+    "edit",
   ),
   defineTool(
     "delete_block",
     "Delete a block and all its children." + GUIDELINES_NOTE,
     DeleteBlockSchema,
     deleteBlock,
+    "edit",
   ),
   defineTool(
     "move_block",
     "Move a block to a new location." + GUIDELINES_NOTE,
     MoveBlockSchema,
     moveBlock,
+    "edit",
+  ),
+  defineTool(
+    "copy_block",
+    "Copy a block and its whole subtree to a new location (same targeting as create_block). The copies get new uids; returns the old to new uid mapping. Set leaveInPlace to replace the original with a ((ref)) or {{embed}} of the copy and move its children under the copy (needs edit access)." +
+      GUIDELINES_NOTE,
+    CopyBlockSchema,
+    copyBlock,
+    "append",
+    // Replacing the original updates it and moves its children
+    (args) => (args.leaveInPlace ? "edit" : "append"),
+  ),
+  defineTool(
+    "batch_operations",
+    'Run an ordered list of create/update/move/delete block operations in one call against one graph. In later steps, uid and parentUid can use uids from earlier ones ("$0.uids[0]", "$1.uid"). If a step fails, the steps already applied are rolled back (deletes are restored from markdown with new uids, and pages the batch created are deleted) and the error reports what was rolled back. Prefer this over many separate create_block/update_block calls.' +
+      GUIDELINES_NOTE,
+    BatchOperationsSchema,
+    batchOperations,
+    "edit",
+  ),
+  defineTool(
+    "find_replace",
+    "Find and replace text across block strings in the graph. find is literal unless regex is true. Scope with pageTitle or a Roam query; without either, every block in the graph is searched. Always preview with dryRun first: it returns each block's diff ([-old-]{+new+}). Refuses to apply when more blocks would change than maxChanges (default 100), or when query matches 5000 or more results. Each change is journaled, so it can be reverted with undo_last_change." +
+      GUIDELINES_NOTE,
+    FindReplaceSchema,
+    findReplace,
+    "edit",
+    readScopeForDryRun,
   ),
   defineTool(
     "add_comment",
@@ -196,6 +281,7 @@ const contentTools: ClientToolDefinition[] = [
       GUIDELINES_NOTE,
     AddCommentSchema,
     addComment,
+    "append",
   ),
   defineTool(
     "get_comments",
@@ -203,12 +289,14 @@ const contentTools: ClientToolDefinition[] = [
       GUIDELINES_NOTE,
     GetCommentsSchema,
     getComments,
+    "read",
   ),
   defineTool(
     "delete_page",
     "Delete a page and all its contents." + GUIDELINES_NOTE,
     DeletePageSchema,
     deletePage,
+    "edit",
   ),
   defineTool(
     "update_page",
@@ -216,6 +304,33 @@ const contentTools: ClientToolDefinition[] = [
       GUIDELINES_NOTE,
     UpdatePageSchema,
     updatePage,
+    "edit",
+  ),
+  defineTool(
+    "rename_page",
+    "Rename a page and rewrite the blocks that reference it ([[Old]], #[[Old]], #Old, Old::), reporting each changed block. Refuses if a page with the new title already exists unless merge is true. Prefer this over update_page for renames." +
+      GUIDELINES_NOTE,
+    RenamePageSchema,
+    renamePage,
+    "edit",
+    readScopeForDryRun,
+  ),
+  defineTool(
+    "merge_pages",
+    "Merge a duplicate page into another: moves the source page's top-level blocks to the end of the target, rewrites references to the source title in its backlinks, carries over the children view type, then deletes the emptied source page. Use dryRun to list everything that will move." +
+      GUIDELINES_NOTE,
+    MergePagesSchema,
+    mergePages,
+    "edit",
+    readScopeForDryRun,
+  ),
+  defineTool(
+    "undo_last_change",
+    "Undo recent update_block, move_block, delete_block, update_page or delete_page changes made through these tools, newest first, using locally journaled snapshots. Deleted blocks and pages are recreated from their markdown (restored blocks get new uids); page merges can't be undone. Creates are not journaled — delete created blocks instead. Use dryRun to see what would be reverted." +
+      GUIDELINES_NOTE,
+    UndoSchema,
+    undoLastChange,
+    "edit",
   ),
   defineTool(
     "search",
@@ -223,6 +338,7 @@ const contentTools: ClientToolDefinition[] = [
       GUIDELINES_NOTE,
     SearchSchema,
     search,
+    "read",
   ),
   defineTool(
     "search_templates",
@@ -230,6 +346,15 @@ const contentTools: ClientToolDefinition[] = [
       GUIDELINES_NOTE,
     SearchTemplatesSchema,
     searchTemplates,
+    "read",
+  ),
+  defineTool(
+    "apply_template",
+    "Insert a Roam template (from search_templates) under a parent block, page title or daily note, like create_block. {{variable}} placeholders are filled from variables, and {{today}}, {{yesterday}}, {{tomorrow}} and {{date: next monday}} become daily note links (relative to the target daily note, if any). Returns the created uids and any placeholders left unfilled." +
+      GUIDELINES_NOTE,
+    ApplyTemplateSchema,
+    applyTemplate,
+    "append",
   ),
   defineTool(
     "roam_query",
@@ -237,6 +362,7 @@ const contentTools: ClientToolDefinition[] = [
       GUIDELINES_NOTE,
     QuerySchema,
     query,
+    "read",
   ),
   defineTool(
     "datalog_query",
@@ -244,6 +370,7 @@ const contentTools: ClientToolDefinition[] = [
       GUIDELINES_NOTE,
     DatalogQuerySchema,
     datalogQuery,
+    "read",
   ),
   defineTool(
     "get_page",
@@ -251,6 +378,7 @@ const contentTools: ClientToolDefinition[] = [
       GUIDELINES_NOTE,
     GetPageSchema,
     getPage,
+    "read",
   ),
   defineTool(
     "get_block",
@@ -258,6 +386,7 @@ const contentTools: ClientToolDefinition[] = [
       GUIDELINES_NOTE,
     GetBlockSchema,
     getBlock,
+    "read",
   ),
   defineTool(
     "get_backlinks",
@@ -265,36 +394,91 @@ const contentTools: ClientToolDefinition[] = [
       GUIDELINES_NOTE,
     GetBacklinksSchema,
     getBacklinks,
+    "read",
+  ),
+  defineTool(
+    "get_attributes",
+    'Get the attributes ("Key:: value" child blocks) of a page or block as a key to values map. Values are parsed into refs, dates (daily note refs and YYYY-MM-DD), numbers or text.' +
+      GUIDELINES_NOTE,
+    GetAttributesSchema,
+    getAttributes,
+    "read",
+  ),
+  defineTool(
+    "set_attribute",
+    'Set an attribute on a page or block: updates its existing "key::" child block, or adds one at the end. The value is Roam markup, e.g. "[[Done]]" or "[[a]], [[b]]".' +
+      GUIDELINES_NOTE,
+    SetAttributeSchema,
+    setAttribute,
+    "edit",
+    readScopeForDryRun,
+  ),
+  defineTool(
+    "find_pages_by_attribute",
+    'List pages that have a top-level "key:: value" attribute block whose value matches (a page title, number, date or text).' +
+      GUIDELINES_NOTE,
+    FindPagesByAttributeSchema,
+    findPagesByAttribute,
+    "read",
+  ),
+  defineTool(
+    "get_daily_notes",
+    'Get the content of every daily note page in a date range, oldest first, e.g. for a weekly review. Dates can be YYYY-MM-DD, MM-DD-YYYY, "October 19th, 2026" or relative ("today", "last monday", "7 days ago"). Days without a daily note page are listed in missing.' +
+      GUIDELINES_NOTE,
+    GetDailyNotesSchema,
+    getDailyNotes,
+    "read",
+  ),
+  defineTool(
+    "list_tasks",
+    'List {{[[TODO]]}} / {{[[DONE]]}} tasks, filtered by status, page, tag, assignee (a page reference such as [[Alice]]), due date (a "Due:: [[date]]" child block or a daily note reference in the task) and daily note date range. Returns each task\'s string, status, due date and breadcrumb path, due soonest first.' +
+      GUIDELINES_NOTE,
+    ListTasksSchema,
+    listTasks,
+    "read",
+  ),
+  defineTool(
+    "set_task_status",
+    "Mark a block as a TODO, DONE, or plain block (none) by rewriting its {{[[TODO]]}} / {{[[DONE]]}} marker." +
+      GUIDELINES_NOTE,
+    SetTaskStatusSchema,
+    setTaskStatus,
+    "edit",
   ),
   defineTool(
     "get_open_windows",
     "Get the current view in the main window and all open sidebar windows." + GUIDELINES_NOTE,
     GetOpenWindowsSchema,
     getOpenWindows,
+    "read",
   ),
   defineTool(
     "get_selection",
     "Get the currently focused block and any multi-selected blocks." + GUIDELINES_NOTE,
     GetSelectionSchema,
     getSelection,
+    "read",
   ),
   defineTool(
     "open_main_window",
     "Navigate to a page or block in the main window." + GUIDELINES_NOTE,
     OpenMainWindowSchema,
     openMainWindow,
+    "read",
   ),
   defineTool(
     "open_sidebar",
     "Open a page or block in the right sidebar." + GUIDELINES_NOTE,
     OpenSidebarSchema,
     openSidebar,
+    "read",
   ),
   defineTool(
     "file_get",
     "Fetch a file hosted on Roam (handles decryption for encrypted graphs)." + GUIDELINES_NOTE,
     FileGetSchema,
     getFile,
+    "read",
   ),
   defineTool(
     "file_upload",
@@ -302,12 +486,14 @@ const contentTools: ClientToolDefinition[] = [
       GUIDELINES_NOTE,
     FileUploadSchema,
     uploadFile,
+    "append",
   ),
   defineTool(
     "file_delete",
     "Delete a file hosted on Roam." + GUIDELINES_NOTE,
     FileDeleteSchema,
     deleteFile,
+    "edit",
   ),
 ];
 
@@ -317,6 +503,77 @@ export function findTool(name: string): ToolDefinition | undefined {
   return tools.find((t) => t.name === name);
 }
 
+/**
+ * Whether a graph with the given access level (and optional `tools` allowlist) can use this
+ * tool. Standalone tools never touch graph content, so they are always permitted.
+ */
+export function isToolPermitted(
+  tool: ToolDefinition,
+  accessLevel: AccessLevel = "full",
+  allowedTools?: string[],
+): boolean {
+  if (tool.type === "standalone") return true;
+  if (allowedTools && !allowedTools.includes(tool.name)) return false;
+  return ACCESS_LEVEL_SCOPES[accessLevel].includes(tool.scope);
+}
+
+/**
+ * Reject a tool call up front if the graph's stored access level lacks the scope the call
+ * needs, instead of letting the Local API fail the request.
+ */
+function checkToolScope(
+  tool: ClientToolDefinition,
+  graph: ResolvedGraph,
+  args: Record<string, unknown>,
+): void {
+  const accessLevel = graph.accessLevel ?? "full";
+  const scope = tool.callScope?.(args) ?? tool.scope;
+  if (ACCESS_LEVEL_SCOPES[accessLevel].includes(scope)) return;
+  throw new RoamError(
+    `Permission denied. ${tool.name} requires the "${scope}" scope${scope !== tool.scope ? " with these arguments" : ""}, but graph "${graph.nickname}" is connected with ${accessLevel} access.`,
+    ErrorCodes.INSUFFICIENT_SCOPE,
+    {
+      tool: tool.name,
+      requiredScope: scope,
+      accessLevel,
+      instruction:
+        "Do not retry this tool on this graph. If the token's permissions were changed in Roam, call get_graph_guidelines to refresh them; otherwise reconnect the graph with a higher access level.",
+    },
+  );
+}
+
+/**
+ * Reject a tool call that the graph's `tools` allowlist in config leaves out.
+ */
+function checkToolAllowed(tool: ClientToolDefinition, graph: ResolvedGraph): void {
+  if (!graph.tools || graph.tools.includes(tool.name)) return;
+  throw new RoamError(
+    `${tool.name} is not enabled for graph "${graph.nickname}". Its config only allows: ${graph.tools.join(", ") || "(no tools)"}.`,
+    ErrorCodes.TOOL_NOT_ALLOWED,
+    {
+      tool: tool.name,
+      allowedTools: graph.tools,
+      instruction:
+        "Do not retry this tool on this graph. Use one of the allowed tools, or ask the user to add this tool to the graph's tools list in their Roam tools config.",
+    },
+  );
+}
+
+/**
+ * Target the graph's defaultPage when a block-creating call names no location
+ * (parentUid, pageTitle or dailyNotePage).
+ */
+function applyDefaultPage(
+  tool: ClientToolDefinition,
+  args: Record<string, unknown>,
+  graph: ResolvedGraph,
+): Record<string, unknown> {
+  const targetKeys = ["parentUid", "pageTitle", "dailyNotePage"];
+  if (!graph.defaultPage || !targetKeys.every((key) => key in tool.schema.shape)) return args;
+  if (targetKeys.some((key) => args[key] !== undefined)) return args;
+  return { ...args, pageTitle: graph.defaultPage };
+}
+
 /**
  * Prepend graph nickname to a tool result.
  */
@@ -402,9 +659,16 @@ function roamErrorResult(error: RoamError): CallToolResult {
   };
 }
 
+export interface RouteToolCallOptions {
+  caller?: AuditCaller; // Recorded in the audit log for writes (default: "library")
+  signal?: AbortSignal; // Cancels the tool's in-flight Local API requests (e.g. MCP cancellation)
+  transport?: Transport; // Replaces the HTTP transport (e.g. a ReplayTransport in tests)
+}
+
 export async function routeToolCall(
   toolName: string,
   args: Record<string, unknown>,
+  options: RouteToolCallOptions = {},
 ): Promise<CallToolResult> {
   const tool = findTool(toolName);
   if (!tool) {
@@ -434,20 +698,28 @@ export async function routeToolCall(
     // Extract graph from validated args and resolve it
     const { graph, ...restArgs } = parsed.data;
     const resolvedGraph = await resolveGraph(graph as string | undefined);
-    const port = await getPort();
-
-    // Create client with full config
-    const client = new RoamClient({
-      graphName: resolvedGraph.name,
-      graphType: resolvedGraph.type,
-      token: resolvedGraph.token,
-      port,
-    });
+    checkToolScope(tool, resolvedGraph, restArgs);
+    checkToolAllowed(tool, resolvedGraph);
+    const toolArgs = applyDefaultPage(tool, restArgs, resolvedGraph);
+    const client = await createClientForGraph(
+      resolvedGraph,
+      { tool: tool.name, caller: options.caller },
+      { signal: options.signal, transport: options.transport },
+    );
 
     // Special handling for get_graph_guidelines: sync token info in parallel
     if (tool.name === "get_graph_guidelines") {
+      // Token status is only persisted for graphs from the user config file, the file
+      // `connect` writes; env and project graphs are left as configured
+      const persistTokenStatus = async (
+        updates: Parameters<typeof updateGraphTokenStatus>[1],
+      ): Promise<void> => {
+        if (resolvedGraph.configSource && resolvedGraph.configSource !== "user") return;
+        await updateGraphTokenStatus(resolvedGraph.nickname, updates);
+      };
+
       const [actionSettled, tokenInfoSettled] = await Promise.allSettled([
-        tool.action(client, restArgs),
+        tool.action(client, toolArgs),
         client.getTokenInfo(),
       ]);
 
@@ -461,7 +733,7 @@ export async function routeToolCall(
       if (tokenInfoResult.status === "revoked") {
         if (resolvedGraph.lastKnownTokenStatus !== "revoked") {
           try {
-            await updateGraphTokenStatus(resolvedGraph.nickname, {
+            await persistTokenStatus({
               lastKnownTokenStatus: "revoked",
             });
           } catch {
@@ -498,7 +770,7 @@ export async function routeToolCall(
         const tokenStatusChanged = resolvedGraph.lastKnownTokenStatus !== "active";
         if (accessLevelChanged || tokenStatusChanged) {
           try {
-            await updateGraphTokenStatus(resolvedGraph.nickname, {
+            await persistTokenStatus({
               ...(accessLevelChanged ? { accessLevel: level } : {}),
               lastKnownTokenStatus: "active",
             });
@@ -517,7 +789,7 @@ export async function routeToolCall(
       // status === "unknown" — action succeeded, so token isn't revoked; clear stale status
       if (resolvedGraph.lastKnownTokenStatus !== "active") {
         try {
-          await updateGraphTokenStatus(resolvedGraph.nickname, { lastKnownTokenStatus: "active" });
+          await persistTokenStatus({ lastKnownTokenStatus: "active" });
         } catch {
           // best-effort status update
         }
@@ -529,7 +801,7 @@ export async function routeToolCall(
     }
 
     // Normal flow for all other tools
-    const result = await tool.action(client, restArgs);
+    const result = await tool.action(client, toolArgs);
 
     // Prepend graph info to successful responses
     if (!result.isError) {
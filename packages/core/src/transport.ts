@@ -0,0 +1,109 @@
+// src/core/transport.ts
+// How RoamClient reaches the Local API: over HTTP by default, or any other Transport
+// (e.g. FakeRoamServer.transport() in-process, or a recorded fixture)
+
+import { readFile } from "fs/promises";
+import { homedir } from "os";
+import { join } from "path";
+
+const DEFAULT_HOST = "127.0.0.1";
+const DEFAULT_PORT = 3333;
+
+export interface TransportRequest {
+  method: "GET" | "POST";
+  path: string; // Path including query string, e.g. "/api/my-graph?type=offline"
+  headers?: Record<string, string>;
+  body?: unknown;
+  signal?: AbortSignal;
+}
+
+export interface TransportResponse {
+  status: number;
+  body: unknown; // Parsed JSON response
+}
+
+export interface Transport {
+  request(request: TransportRequest): Promise<TransportResponse>;
+  // Forget cached connection details (e.g. the port) after a connection failure
+  reset?(): void;
+}
+
+/**
+ * Local API host from ROAM_API_HOST (e.g. when Roam runs in a container/VM with port
+ * forwarding), else 127.0.0.1.
+ */
+export function getApiHost(): string {
+  return process.env.ROAM_API_HOST?.trim() || DEFAULT_HOST;
+}
+
+/** Whether a host is this machine, where the tools can launch Roam themselves. */
+export function isLocalHost(host: string): boolean {
+  return ["localhost", "::1", "[::1]"].includes(host) || /^127\./.test(host);
+}
+
+/** Base URL of the Local API, e.g. "http://127.0.0.1:3333". */
+export function localApiUrl(port: number, host: string = getApiHost()): string {
+  return `http://${host.includes(":") && !host.startsWith("[") ? `[${host}]` : host}:${port}`;
+}
+
+export interface HttpTransportOptions {
+  host?: string; // Default: ROAM_API_HOST, else 127.0.0.1
+  port?: number; // Default: read from ~/.roam-local-api.json, else 3333
+}
+
+/**
+ * The Local API over HTTP. Network errors from fetch are passed through unchanged so the
+ * client can recognise them and retry.
+ */
+export class HttpTransport implements Transport {
+  private host: string;
+  private configuredPort: number | null;
+  private port: number | null;
+
+  constructor(options: HttpTransportOptions = {}) {
+    this.host = options.host || getApiHost();
+    this.configuredPort = options.port || null;
+    this.port = this.configuredPort;
+  }
+
+  /** Host and configured port, identifying the Roam instance this transport reaches. */
+  get endpoint(): string {
+    return `${this.host}:${this.configuredPort ?? "auto"}`;
+  }
+
+  /** Whether requests go to this machine, where the client can launch Roam itself. */
+  isLocal(): boolean {
+    return isLocalHost(this.host);
+  }
+
+  private async getPort(): Promise<number> {
+    if (this.port) return this.port;
+
+    try {
+      const configFile = join(homedir(), ".roam-local-api.json");
+      const content = await readFile(configFile, "utf-8");
+      const config = JSON.parse(content) as { port: number };
+      this.port = config.port;
+      return this.port;
+    } catch {
+      // Default port if file doesn't exist
+      return DEFAULT_PORT;
+    }
+  }
+
+  reset(): void {
+    // Roam may come back on a different port; re-read it from config (unless it was given)
+    this.port = this.configuredPort;
+  }
+
+  async request(request: TransportRequest): Promise<TransportResponse> {
+    const port = await this.getPort();
+    const response = await fetch(`${localApiUrl(port, this.host)}${request.path}`, {
+      method: request.method,
+      headers: { "Content-Type": "application/json", ...request.headers },
+      body: request.body === undefined ? undefined : JSON.stringify(request.body),
+      signal: request.signal,
+    });
+    return { status: response.status, body: await response.json() };
+  }
+}
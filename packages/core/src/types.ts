@@ -2,6 +2,7 @@
 export type { CallToolResult, TextContent, ImageContent } from "@modelcontextprotocol/sdk/types.js";
 import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
+import type { Transport } from "./transport.js";
 
 // Helper to create a text result
 export function textResult(value: unknown): CallToolResult {
@@ -29,9 +30,20 @@ export type GraphType = "hosted" | "offline";
 // Access level type
 export type AccessLevel = "read-only" | "read-append" | "full";
 
+// Token scope a tool needs: read content, append new content, or edit/delete existing content
+export type ToolScope = "read" | "append" | "edit";
+
+// Scopes granted by each access level (mirrors grantedScopes from the Local API)
+export const ACCESS_LEVEL_SCOPES: Record<AccessLevel, ToolScope[]> = {
+  "read-only": ["read"],
+  "read-append": ["read", "append"],
+  full: ["read", "append", "edit"],
+};
+
 // Config file schema for ~/.roam-tools.json
 // Graph names can only contain alphanumeric characters, hyphens, and underscores
 const GRAPH_NAME_PATTERN = /^[A-Za-z0-9_-]+$/;
+const NICKNAME_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
 
 export const GraphConfigSchema = z.object({
   name: z
@@ -42,11 +54,27 @@ export const GraphConfigSchema = z.object({
     )
     .describe("Actual graph name in Roam"),
   type: z.enum(["hosted", "offline"]).default("hosted").describe("Graph type"),
-  token: z.string().startsWith("roam-graph-local-token-").describe("Local API token"),
+  token: z
+    .string()
+    .refine(
+      (value) => value.startsWith("roam-graph-local-token-") || /^[a-z][a-z0-9-]*:\S+$/.test(value),
+      'Must be a Local API token ("roam-graph-local-token-...") or a secret reference such as "keychain:roam/my-graph"',
+    )
+    .describe("Local API token, or a reference to it in a secret store"),
   nickname: z
     .string()
-    .regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, "Nickname must be lowercase letters, numbers, and hyphens")
+    .regex(NICKNAME_PATTERN, "Nickname must be lowercase letters, numbers, and hyphens")
     .describe("Short identifier for the graph (lowercase, hyphens, no spaces)"),
+  aliases: z
+    .array(
+      z.string().regex(NICKNAME_PATTERN, "Aliases must be lowercase letters, numbers, and hyphens"),
+    )
+    .optional()
+    .describe("Other names the graph can be selected by, in the same format as nickname"),
+  default: z
+    .boolean()
+    .optional()
+    .describe("Use this graph when a call names none and several graphs are configured"),
   accessLevel: z
     .enum(["read-only", "read-append", "full"])
     .optional()
@@ -55,6 +83,27 @@ export const GraphConfigSchema = z.object({
     .enum(["active", "revoked"])
     .optional()
     .describe("Token validity status from last sync with Roam"),
+  // Per-graph defaults
+  description: z
+    .string()
+    .optional()
+    .describe("What the graph is for, shown by list_graphs so agents can pick the right one"),
+  defaultPage: z
+    .string()
+    .min(1)
+    .optional()
+    .describe("Page for new blocks when a call gives no parentUid, pageTitle or dailyNotePage"),
+  tools: z
+    .array(z.string())
+    .optional()
+    .describe(
+      "Only these tools may be used with this graph (default: all its access level allows)",
+    ),
+  cacheTtlSeconds: z
+    .number()
+    .nonnegative()
+    .optional()
+    .describe("Read-cache TTL for this graph; 0 disables it (default: ROAM_CACHE_TTL)"),
 });
 export type GraphConfig = z.infer<typeof GraphConfigSchema>;
 
@@ -72,6 +121,11 @@ export interface ResolvedGraph {
   nickname: string;
   accessLevel?: AccessLevel;
   lastKnownTokenStatus?: "active" | "revoked";
+  configSource?: "env" | "project" | "user"; // Config layer the graph came from
+  description?: string;
+  defaultPage?: string;
+  tools?: string[];
+  cacheTtlSeconds?: number;
 }
 
 // ============================================================================
@@ -96,7 +150,7 @@ export const ErrorCodes = {
   USER_REJECTED: "USER_REJECTED",
   GRAPH_BLOCKED: "GRAPH_BLOCKED",
 
-  // Token request errors
+  // Token request errors (TIMEOUT is also used when a Local API call takes too long)
   TIMEOUT: "TIMEOUT",
   REQUEST_IN_PROGRESS: "REQUEST_IN_PROGRESS",
 
@@ -113,6 +167,9 @@ export const ErrorCodes = {
   GRAPH_NOT_SELECTED: "GRAPH_NOT_SELECTED",
   CONNECTION_FAILED: "CONNECTION_FAILED",
   CONFIG_TOO_NEW: "CONFIG_TOO_NEW",
+  CANCELLED: "CANCELLED",
+  SECRET_UNAVAILABLE: "SECRET_UNAVAILABLE",
+  TOOL_NOT_ALLOWED: "TOOL_NOT_ALLOWED",
 } as const;
 
 export type ErrorCode = (typeof ErrorCodes)[keyof typeof ErrorCodes];
@@ -137,6 +194,7 @@ export class RoamError extends Error {
 // Users may have different versions of roam-mcp and roam-cli installed,
 // so a newer version may write a config that an older version can't parse.
 // Bump this when the config schema changes in a breaking way.
+// Older files are upgraded by the migrations in graph-resolver.ts.
 export const CONFIG_VERSION = 1;
 
 // API version this client expects. Sent as `expectedApiVersion` in every request.
@@ -178,10 +236,14 @@ export interface Block {
   uid: string;
   string: string;
   children?: Block[];
+  order?: number;
   open?: boolean;
   heading?: number;
   "text-align"?: "left" | "center" | "right" | "justify";
   "children-view-type"?: "bullet" | "numbered" | "document";
+  "create-time"?: number; // ms since epoch
+  "edit-time"?: number;
+  author?: string; // display name of the user who created the block
 }
 
 // Page types
@@ -190,6 +252,8 @@ export interface Page {
   title: string;
   children?: Block[];
   "children-view-type"?: "bullet" | "numbered" | "document";
+  "create-time"?: number;
+  "edit-time"?: number;
 }
 
 // Location for simple block operations (moveBlock).
@@ -375,10 +439,26 @@ export type TokenInfoResult =
   | { status: "revoked" }
   | { status: "unknown" }; // network error, 404, etc.
 
+// Which entry point made a call (recorded in the audit log)
+export type AuditCaller = "cli" | "mcp" | "library";
+
+// Context a RoamClient attaches to each audit log entry
+export interface AuditContext {
+  nickname?: string;
+  tool?: string;
+  caller?: AuditCaller;
+}
+
 // Client config (v2.0.0 - requires token and type)
 export interface RoamClientConfig {
   graphName: string;
   graphType: GraphType;
   token: string;
   port?: number;
+  host?: string; // Local API host (default: 127.0.0.1), e.g. for Roam in a VM with port forwarding
+  transport?: Transport; // Replaces the HTTP transport; host and port are then ignored
+  audit?: AuditContext | false; // false disables audit logging for this client
+  cacheTtlMs?: number; // Cache read responses this long; 0 disables (default: ROAM_CACHE_TTL)
+  timeoutMs?: number; // Per-request timeout; 0 disables (default: ROAM_REQUEST_TIMEOUT or 60s)
+  signal?: AbortSignal; // Cancels every request made by this client
 }
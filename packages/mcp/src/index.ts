@@ -61,9 +61,12 @@ Examples:
 // ============================================================================
 
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { RegisteredTool } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import type { RoamMcpConfig } from "@roam-research/roam-tools-core";
 import {
   tools,
+  isToolPermitted,
   routeToolCall,
   getMcpConfig,
   RoamError,
@@ -72,34 +75,79 @@ import {
 
 const server = new McpServer({ name: "roam-mcp", version: "0.5.1" });
 
-// Register each tool with its Zod schema
-for (const tool of tools) {
-  server.registerTool(
-    tool.name,
-    {
-      description: tool.description,
-      inputSchema: tool.schema,
-    },
-    async (args) => {
-      try {
-        return await routeToolCall(tool.name, args as Record<string, unknown>);
-      } catch (error) {
-        // Safety net for unexpected errors (RoamErrors are handled by routeToolCall)
-        const message = error instanceof Error ? error.message : String(error);
-        return {
-          content: [{ type: "text", text: message }],
-          isError: true,
-        };
-      }
-    },
-  );
+const registeredTools = new Map<string, RegisteredTool>();
+
+// Calls that can change which graphs exist or their access levels: setup_new_graph adds a
+// graph, and get_graph_guidelines syncs the token's status and access level into the config
+const CONFIG_CHANGING_TOOLS = new Set(["setup_new_graph", "get_graph_guidelines"]);
+
+// Register each tool with its Zod schema.
+function registerTools() {
+  for (const tool of tools) {
+    const registered = server.registerTool(
+      tool.name,
+      {
+        description: tool.description,
+        inputSchema: tool.schema,
+      },
+      async (args, extra) => {
+        try {
+          return await routeToolCall(tool.name, args as Record<string, unknown>, {
+            caller: "mcp",
+            signal: extra.signal,
+          });
+        } catch (error) {
+          // Safety net for unexpected errors (RoamErrors are handled by routeToolCall)
+          const message = error instanceof Error ? error.message : String(error);
+          return {
+            content: [{ type: "text", text: message }],
+            isError: true,
+          };
+        } finally {
+          if (CONFIG_CHANGING_TOOLS.has(tool.name)) await refreshTools();
+        }
+      },
+    );
+    registeredTools.set(tool.name, registered);
+  }
+}
+
+// Tools no configured graph has the scope for or allows (e.g. write tools when every graph is
+// read-only) are hidden. With no config yet, everything is listed so setup_new_graph can
+// connect a graph with any access level. Clients are notified when the list changes.
+function applyToolVisibility(config: RoamMcpConfig | undefined) {
+  let changed = false;
+  for (const tool of tools) {
+    const registered = registeredTools.get(tool.name);
+    if (!registered) continue;
+    const visible =
+      !config || config.graphs.some((g) => isToolPermitted(tool, g.accessLevel, g.tools));
+    if (registered.enabled !== visible) {
+      registered.enabled = visible;
+      changed = true;
+    }
+  }
+  if (changed) server.sendToolListChanged();
+}
+
+// Re-read the config after a call that may have changed it. An unreadable config leaves the
+// current list in place.
+async function refreshTools() {
+  let config: RoamMcpConfig;
+  try {
+    config = await getMcpConfig();
+  } catch {
+    return;
+  }
+  applyToolVisibility(config);
 }
 
 async function main() {
   // Fail fast if config is from a newer version we can't understand.
   // CONFIG_NOT_FOUND is fine — user may connect later via setup_new_graph.
+  let config: RoamMcpConfig | undefined;
   try {
-    await getMcpConfig();
+    config = await getMcpConfig();
   } catch (error) {
     if (error instanceof RoamError && error.code === ErrorCodes.CONFIG_TOO_NEW) {
       console.error(error.message);
@@ -108,6 +156,9 @@ async function main() {
     // All other errors (CONFIG_NOT_FOUND, etc.) are expected — continue startup
   }
 
+  registerTools();
+  applyToolVisibility(config);
+
   const transport = new StdioServerTransport();
   await server.connect(transport);
   console.error("Roam MCP server running");
@@ -0,0 +1,61 @@
+#!/usr/bin/env node
+
+// Runs a few tool calls through routeToolCall against FakeRoamServer's in-process transport,
+// checking the fake answers create, read, update and q the way the Local API does.
+// Run with: npm run smoke (tsx, so the core package resolves to its TypeScript source)
+
+import assert from "node:assert/strict";
+import { routeToolCall } from "@roam-research/roam-tools-core";
+import { FakeRoamServer, createFixtureEnvironment } from "@roam-research/roam-tools-core/testing";
+
+const GRAPH = "smoke-graph";
+const PAGE = "Smoke Test";
+
+const server = new FakeRoamServer({ graphs: [{ name: GRAPH }] });
+server.graph(GRAPH).addPage(PAGE, "- existing block");
+const token = server.issueToken(GRAPH);
+const transport = server.transport();
+
+const env = await createFixtureEnvironment([
+  { name: GRAPH, type: "hosted", nickname: GRAPH, token, accessLevel: "full" },
+]);
+
+// Tool results are "Roam graph: <nickname>" followed by the operation's text
+function resultText(result) {
+  assert.ok(!result.isError, `Tool call failed: ${result.content[0]?.text}`);
+  return result.content[0].text.replace(/^Roam graph: [^\n]*\n\n/, "");
+}
+
+async function call(tool, args) {
+  const text = resultText(await routeToolCall(tool, args, { transport }));
+  console.log(`✓ ${tool}`);
+  return text;
+}
+
+try {
+  const created = JSON.parse(
+    await call("create_block", { pageTitle: PAGE, markdown: "- created block" }),
+  );
+  assert.equal(created.uids.length, 1);
+  const [uid] = created.uids;
+
+  const page = JSON.parse(await call("get_page", { title: PAGE }));
+  assert.match(page.markdown, /^- existing block <roam uid="[^"]+" \/>$/m);
+  assert.match(page.markdown, new RegExp(`^- created block <roam uid="${uid}" />$`, "m"));
+
+  await call("update_block", { uid, string: "updated block" });
+  const block = JSON.parse(await call("get_block", { uid }));
+  assert.match(block.markdown, /updated block/);
+
+  const rows = JSON.parse(
+    await call("datalog_query", {
+      query: `[:find ?s :in $ ?title :where [?p :node/title ?title] [?b :block/page ?p] [?b :block/string ?s]]`,
+      inputs: [PAGE],
+    }),
+  );
+  assert.deepEqual(rows.map(([s]) => s).sort(), ["existing block", "updated block"]);
+
+  console.log("FakeRoamServer smoke check passed");
+} finally {
+  await env.restore();
+}